@@ -0,0 +1,17 @@
+/**
+ * The AbortSignal typings of @types/node 17 lack the EventTarget methods that exist at runtime.
+ */
+type AbortSignalTarget = AbortSignal & {
+    addEventListener(type: 'abort', listener: () => void, options?: {once?: boolean}): void,
+    removeEventListener(type: 'abort', listener: () => void): void,
+};
+
+/**
+ * Calls the listener once the signal is aborted.
+ * @return a function that removes the listener.
+ */
+export const onAbort = (signal: AbortSignal, listener: () => void): () => void => {
+    const target = signal as AbortSignalTarget;
+    target.addEventListener('abort', listener, {once: true});
+    return () => target.removeEventListener('abort', listener);
+};
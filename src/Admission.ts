@@ -0,0 +1,197 @@
+import {has} from '@0cfg/utils-common/lib/has';
+import {KubernetesObject, ObjectKind} from './KubeClient';
+import {errorStatus} from './KubernetesError';
+import {deepCopy} from './ObjectUtils';
+import {createJsonPatch} from './Patch';
+import {BadRequestError, WebhookHandler} from './WebhookServer';
+
+export type AdmissionOperation = 'CREATE' | 'UPDATE' | 'DELETE' | 'CONNECT';
+
+export interface GroupVersionKind {
+    group: string;
+    version: string;
+    kind: string;
+}
+
+export interface GroupVersionResource {
+    group: string;
+    version: string;
+    resource: string;
+}
+
+/**
+ * The request of an admission.k8s.io/v1 AdmissionReview.
+ */
+export interface AdmissionRequest {
+    uid: string;
+    kind: GroupVersionKind;
+    resource: GroupVersionResource;
+    subResource?: string;
+    requestKind?: GroupVersionKind;
+    requestResource?: GroupVersionResource;
+    requestSubResource?: string;
+    name?: string;
+    namespace?: string;
+    operation: AdmissionOperation;
+    userInfo: {
+        username?: string,
+        uid?: string,
+        groups?: string[],
+        extra?: {[key: string]: string[]},
+    };
+    /**
+     * The new object. Not set for DELETE.
+     */
+    object?: KubernetesObject;
+    /**
+     * The existing object. Only set for UPDATE and DELETE.
+     */
+    oldObject?: KubernetesObject;
+    dryRun?: boolean;
+    /**
+     * The options of the operation, e.g. meta.k8s.io/v1 CreateOptions.
+     */
+    options?: unknown;
+}
+
+/**
+ * The response of an admission.k8s.io/v1 AdmissionReview.
+ */
+export interface AdmissionResponse {
+    uid: string;
+    allowed: boolean;
+    status?: {
+        code: number,
+        message: string,
+        reason?: string,
+    };
+    /**
+     * Base64 encoded JSON patch.
+     */
+    patch?: string;
+    patchType?: 'JSONPatch';
+    warnings?: string[];
+}
+
+export interface AdmissionReview {
+    apiVersion: 'admission.k8s.io/v1';
+    kind: 'AdmissionReview';
+    request?: AdmissionRequest;
+    response?: AdmissionResponse;
+}
+
+/**
+ * Validates objects of a kind on admission.
+ * Throwing an error denies the request with the error message and the code of the error if it is a Kubernetes
+ * error, otherwise 403. Returned strings are sent back to the client as warnings.
+ * Operations without a method are allowed.
+ */
+export interface Validator<T extends KubernetesObject> {
+    validateCreate?(object: T, request: AdmissionRequest): Promise<string[] | void> | string[] | void;
+    validateUpdate?(object: T, oldObject: T, request: AdmissionRequest): Promise<string[] | void> | string[] | void;
+    validateDelete?(oldObject: T, request: AdmissionRequest): Promise<string[] | void> | string[] | void;
+}
+
+/**
+ * Sets defaults on objects of a kind on create and update by modifying the passed object.
+ * The modifications are sent back to the api server as a JSON patch.
+ * Throwing an error denies the request.
+ */
+export interface Defaulter<T extends KubernetesObject> {
+    default(object: T, request: AdmissionRequest): Promise<void> | void;
+}
+
+const webhookPath = (prefix: string, object: ObjectKind<any>): string => {
+    const [group, version] = object.apiVersion.includes('/') ? object.apiVersion.split('/') : ['', object.apiVersion];
+    return `/${prefix}-${group.replace(/\./g, '-')}-${version}-${object.kind.toLowerCase()}`;
+};
+
+/**
+ * Returns the path of the validating webhook of a kind, e.g. /validate-apps-v1-deployment or /validate--v1-pod.
+ */
+export const validatingWebhookPath = (object: ObjectKind<any>): string => webhookPath('validate', object);
+
+/**
+ * Returns the path of the mutating webhook of a kind, e.g. /mutate-apps-v1-deployment or /mutate--v1-pod.
+ */
+export const mutatingWebhookPath = (object: ObjectKind<any>): string => webhookPath('mutate', object);
+
+const decodeRequest = (body: any): AdmissionRequest => {
+    if (body?.apiVersion !== 'admission.k8s.io/v1' || body?.kind !== 'AdmissionReview') {
+        throw new BadRequestError(`Expected an admission.k8s.io/v1 AdmissionReview, got ${body?.apiVersion} ${body?.kind}`);
+    }
+    if (!has(body.request?.uid)) {
+        throw new BadRequestError('AdmissionReview has no request');
+    }
+    return body.request;
+};
+
+const review = (response: AdmissionResponse): AdmissionReview => ({
+    apiVersion: 'admission.k8s.io/v1',
+    kind: 'AdmissionReview',
+    response,
+});
+
+const allowed = (uid: string, warnings?: string[] | void): AdmissionResponse => {
+    if (Array.isArray(warnings) && warnings.length > 0) {
+        return {uid, allowed: true, warnings};
+    }
+    return {uid, allowed: true};
+};
+
+const denied = (uid: string, error: unknown, code: number): AdmissionResponse => {
+    const status = errorStatus(error);
+    if (has(status)) {
+        return {uid, allowed: false, status: {code: status.code, message: status.message, reason: status.reason}};
+    }
+    return {uid, allowed: false, status: {code, message: error instanceof Error ? error.message : String(error)}};
+};
+
+/**
+ * Returns a webhook handler that answers AdmissionReviews with the result of the validator.
+ */
+export const validatingHandler = <T extends KubernetesObject>(validator: Validator<T>): WebhookHandler =>
+    async body => {
+        const request = decodeRequest(body);
+        try {
+            switch (request.operation) {
+                case 'CREATE':
+                    return review(allowed(request.uid, await validator.validateCreate?.(request.object as T, request)));
+                case 'UPDATE':
+                    return review(allowed(request.uid,
+                        await validator.validateUpdate?.(request.object as T, request.oldObject as T, request)));
+                case 'DELETE':
+                    return review(allowed(request.uid, await validator.validateDelete?.(request.oldObject as T, request)));
+                default:
+                    return review(allowed(request.uid));
+            }
+        } catch (e) {
+            return review(denied(request.uid, e, 403));
+        }
+    };
+
+/**
+ * Returns a webhook handler that answers AdmissionReviews with a JSON patch of the defaulter's modifications.
+ */
+export const mutatingHandler = <T extends KubernetesObject>(defaulter: Defaulter<T>): WebhookHandler =>
+    async body => {
+        const request = decodeRequest(body);
+        if (!['CREATE', 'UPDATE'].includes(request.operation) || !has(request.object)) {
+            return review(allowed(request.uid));
+        }
+        const object = deepCopy(request.object) as T;
+        try {
+            await defaulter.default(object, request);
+        } catch (e) {
+            return review(denied(request.uid, e, 500));
+        }
+        const operations = createJsonPatch(request.object, object);
+        if (operations.length === 0) {
+            return review(allowed(request.uid));
+        }
+        return review({
+            ...allowed(request.uid),
+            patch: Buffer.from(JSON.stringify(operations)).toString('base64'),
+            patchType: 'JSONPatch',
+        });
+    };
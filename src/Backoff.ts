@@ -0,0 +1,54 @@
+export interface BackoffOptions {
+    /**
+     * Delay in milliseconds of the first attempt. Defaults to 800ms.
+     */
+    initialDelay?: number;
+
+    /**
+     * Upper bound of the delay in milliseconds before jitter is applied. Defaults to 30 seconds.
+     */
+    maxDelay?: number;
+
+    /**
+     * Factor the delay is multiplied with after every attempt. Defaults to 2.
+     */
+    factor?: number;
+
+    /**
+     * Maximum fraction of the delay that is randomly added to it. Defaults to 0.5.
+     */
+    jitter?: number;
+}
+
+/**
+ * Computes exponentially growing delays with jitter for consecutive failed attempts.
+ */
+export class Backoff {
+    private attempts = 0;
+
+    public constructor(
+        private readonly options: BackoffOptions = {},
+    ) {
+    }
+
+    /**
+     * Returns the delay in milliseconds before the next attempt.
+     */
+    public next(): number {
+        const {initialDelay = 800, maxDelay = 30 * 1000, factor = 2, jitter = 0.5} = this.options;
+        const delay = Math.min(initialDelay * Math.pow(factor, this.attempts), maxDelay);
+        this.attempts++;
+        return delay * (1 + Math.random() * jitter);
+    }
+
+    /**
+     * Resets the delay to the initial delay after a successful attempt.
+     */
+    public reset(): void {
+        this.attempts = 0;
+    }
+
+    public getAttempts(): number {
+        return this.attempts;
+    }
+}
@@ -1,7 +1,6 @@
 import {
     KubeClient,
     KubeClientReader,
-    ObjectHeader,
     ObjectKind,
     WatchCallback,
     KubernetesObject,
@@ -10,34 +9,193 @@ import {
 } from "./KubeClient";
 import {has} from "@0cfg/utils-common/lib/has";
 import {NotFound} from "./KubernetesError";
-import {V1Status} from "@kubernetes/client-node";
+import {KubernetesListObject, RequestResult, V1Status} from "@kubernetes/client-node";
+import {deepCopy, deepFreeze, groupVersionKindKey, namespacedName, parseGroupVersionKind, parseNamespacedName} from './ObjectUtils';
+import {IndexFunc, Indexer} from './Indexer';
+import {parseFieldSelector, parseLabelSelector, splitRequirements} from './Selector';
+import {onAbort} from './Abort';
+import {Backoff} from './Backoff';
+import {cacheObjects, cacheWatchRestarts} from './RuntimeMetrics';
+import {getLogger, Logger} from './Logger';
+import {listPages} from './Pager';
 
-const groupVersionKindKey = (object: ObjectKind<any>): string => [object.apiVersion, object.kind].join('/');
-const parseGroupVersionKind = (gvk: string): ObjectKind<any> => {
-    const s = gvk.split('/');
-    return {
-        apiVersion: s[0],
-        kind: s[1],
+/**
+ * Describes the Kubernetes status code if an outdated resource version is used in the watch.
+ */
+const resourceVersionExpiredCode = 410;
+
+/**
+ * Minimum timeout in seconds of a watch request. The actual timeout is randomized between this and twice the value.
+ */
+const minWatchTimeout = 5 * 60;
+
+/**
+ * Watches that are closed by the api server faster than this duration in milliseconds are restarted with backoff.
+ */
+const minWatchDuration = 1000;
+
+/**
+ * Resolves after the duration or once the signal is aborted.
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+    if (signal?.aborted) {
+        resolve();
+        return;
     }
-};
-const namespacedName = (object: ObjectHeader<any>): string => [object.metadata.namespace, object.metadata.name].join('/');
+    let removeAbortListener: (() => void) | undefined;
+    const timer = setTimeout(() => {
+        removeAbortListener?.();
+        resolve();
+    }, ms);
+    if (has(signal)) {
+        removeAbortListener = onAbort(signal, () => {
+            clearTimeout(timer);
+            resolve();
+        });
+    }
+});
 
 /**
- * Describes the Kubernetes status reason if an outdated resource version is used in the watch.
+ * Restricts the objects of a kind that are cached.
  */
-const resourceVersionExpiredReason = 'Expired';
+export interface CacheScope {
+    /**
+     * Only cache objects in these namespaces. Defaults to all namespaces.
+     * Ignored for cluster scoped kinds.
+     */
+    namespaces?: string[];
+
+    /**
+     * Only cache objects matching the label selector.
+     */
+    labelSelector?: string;
+
+    /**
+     * Only cache objects matching the field selector.
+     */
+    fieldSelector?: string;
+}
 
 /**
- * Describes the Kubernetes status code if an outdated resource version is used in the watch.
+ * Describes how the cache protects its objects from modifications by their users.
  */
-const resourceVersionExpiredCode = 410;
+export enum ObjectStrategy {
+    /**
+     * Objects are copied when they are stored and when they are handed out.
+     */
+    Copy = 'Copy',
+    /**
+     * Objects are deeply frozen when they are stored and handed out without copying.
+     * Modifying a nested field of a handed out object throws a TypeError. Intended for debugging.
+     * get copies the object into the passed object, which therefore stays modifiable.
+     */
+    Freeze = 'Freeze',
+    /**
+     * Objects are shared between the cache and its users. Fastest, but modifications by users corrupt the cache.
+     */
+    Shared = 'Shared',
+}
+
+export interface CacheOptions {
+    /**
+     * Defaults to ObjectStrategy.Copy.
+     */
+    objectStrategy?: ObjectStrategy;
+
+    /**
+     * Scope of all kinds that have no explicit scope.
+     */
+    defaultScope?: CacheScope;
+
+    /**
+     * Scopes of specific kinds.
+     */
+    scopes?: {object: ObjectKind<any>, scope: CacheScope}[];
+
+    /**
+     * Maximum number of objects per page of the initial lists. Defaults to 500.
+     */
+    listPageSize?: number;
+
+    /**
+     * Defaults to the logger returned by getLogger().
+     */
+    logger?: Logger;
+}
+
+const hasSelector = (scope?: CacheScope): boolean => (scope?.labelSelector ?? '') !== '' || (scope?.fieldSelector ?? '') !== '';
+
+/**
+ * Checks that the selector contains all requirements of the scope selector, so it only selects cached objects.
+ */
+const withinSelector = (selector = '', scopeSelector = ''): boolean => {
+    const normalize = (s: string) => splitRequirements(s).map(r => r.replace(/\s+/g, ''));
+    const requirements = normalize(selector);
+    return normalize(scopeSelector).every(r => requirements.includes(r));
+};
+
+/**
+ * Thrown if an object is requested from the cache that is outside the cached scope of its kind.
+ */
+export class CacheScopeError extends Error {
+    public constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = this.constructor.name;
+    }
+}
+
+export interface WaitForSyncOptions {
+    /**
+     * Maximum duration in milliseconds to wait.
+     */
+    timeout?: number;
+
+    /**
+     * Stops waiting once aborted.
+     */
+    signal?: AbortSignal;
+}
 
 export interface Cache extends KubeClientReader {
-    start(): void;
-    addListener(object: ObjectKind<any>, cb: WatchCallback): void;
-    waitForSync(): Promise<void>;
+    /**
+     * Starts watching all registered kinds. Once the signal is aborted all watches are stopped for good.
+     */
+    start(signal?: AbortSignal): void;
+    /**
+     * Registers a listener for watch events of the kind.
+     * The scope of the kind can be set by the first listener, otherwise it is taken from the cache options.
+     */
+    addListener(object: ObjectKind<any>, cb: WatchCallback, scope?: CacheScope): void;
+
+    /**
+     * Resolves once the initial list of all kinds that are registered at the time of the call is loaded.
+     * @throws {Error} if the timeout expires or the signal is aborted before.
+     */
+    waitForSync(options?: WaitForSyncOptions): Promise<void>;
+
+    /**
+     * Returns true if the initial list of the kind is loaded.
+     */
+    hasSynced(object: ObjectKind<any>): boolean;
+
+    /**
+     * Registers an index for objects of the kind that is maintained on every change of the cache.
+     */
+    addIndex(object: ObjectKind<any>, name: string, indexFunc: IndexFunc): void;
+
+    /**
+     * Returns all cached objects of the kind that are indexed with the value.
+     */
+    byIndex<T extends KubernetesObject>(object: ObjectKind<T>, name: string, value: string): T[];
 }
 
+const scopeKey = (scope: CacheScope): string => JSON.stringify([
+    [...(scope.namespaces ?? [])].sort(),
+    scope.labelSelector ?? '',
+    scope.fieldSelector ?? '',
+]);
+
 export class DefaultCache implements Cache {
     private listeners: {[gvk: string]: WatchCallback[]} = {};
     private cache: {
@@ -45,33 +203,79 @@ export class DefaultCache implements Cache {
             [namespacedName: string]: KubernetesObject,
         }
     } = {};
+    private scopes: {[gvk: string]: CacheScope} = {};
+    private indexers: {[gvk: string]: Indexer} = {};
+    /**
+     * Metadata of the watches of a kind by namespace. Kinds that are watched in all namespaces use an empty namespace.
+     */
     private metadata: {
         [gvk: string]: {
-            lastResourceVersion?: string,
-            resourcePath: string,
+            [namespace: string]: {
+                lastResourceVersion?: string,
+                resourcePath: string,
+                backoff: Backoff,
+                request?: RequestResult,
+            },
         },
     } = {};
-    private cacheSync?: Promise<void>;
+    /**
+     * Sync state of every kind. A kind is synced once the initial lists of all its watches are loaded.
+     */
+    private syncs: {
+        [gvk: string]: {
+            synced: boolean,
+            promise: Promise<void>,
+            resolve: () => void,
+        },
+    } = {};
+    private started = false;
+    private signal?: AbortSignal;
+    private readonly logger: Logger;
 
     public constructor(
         private readonly client: KubeClient,
+        private readonly options: CacheOptions = {},
     ) {
+        this.logger = (options.logger ?? getLogger()).child({component: 'cache'});
     }
 
-    public start(): void {
-        this.cacheSync = this.startSync();
+    public start(signal?: AbortSignal): void {
+        if (this.started) {
+            throw new Error('Cache already started');
+        }
+        this.started = true;
+        this.signal = signal;
+        if (has(signal)) {
+            onAbort(signal, () => Object.values(this.metadata)
+                .forEach(namespaces => Object.values(namespaces).forEach(m => m.request?.abort())));
+        }
+        Object.keys(this.cache).forEach(gvk => this.startInformer(gvk));
     }
 
-    public addListener(object: ObjectKind<any>, cb: WatchCallback): void {
-        if (has(this.cacheSync)) {
-            throw new Error(`Cache already started. Listeners can only be added before tarting the cache`);
-        }
+    /**
+     * Registers a listener for watch events of the kind.
+     * Kinds that are added after the cache was started are started immediately.
+     * Listeners of already cached kinds receive ADDED events for all cached objects.
+     */
+    public addListener(object: ObjectKind<any>, cb: WatchCallback, scope?: CacheScope): void {
         const gvk = groupVersionKindKey(object)
         if (!has(this.listeners[gvk])) {
-            this.listeners[gvk] = [];
+            this.listeners[gvk] = [cb];
             this.cache[gvk] = {};
+            this.scopes[gvk] = scope ?? this.configuredScope(gvk);
+            let resolve: () => void = () => undefined;
+            const promise = new Promise<void>(r => resolve = r);
+            this.syncs[gvk] = {synced: false, promise, resolve};
+            if (this.started && !this.stopped()) {
+                this.startInformer(gvk);
+            }
+            return;
+        }
+        if (has(scope) && scopeKey(scope) !== scopeKey(this.scopes[gvk])) {
+            throw new Error(`Kind ${gvk} is already cached with a different scope`);
         }
         this.listeners[gvk].push(cb);
+        Object.values(this.cache[gvk]).forEach(obj => cb(KubernetesEventType.ADDED, this.handOut(obj)));
     }
 
     public async get<T extends KubernetesObject>(
@@ -81,104 +285,418 @@ export class DefaultCache implements Cache {
         exportt?: boolean,
         options?: { headers: { [p: string]: string } }): Promise<void> {
         const gvk = groupVersionKindKey(spec);
-        if (!has(this.cache[gvk] || !has(this.cache[gvk][namespacedName(spec)]))) {
+        this.checkNamespaceScope(gvk, spec.metadata.namespace);
+        if (!has(this.cache[gvk]) || !has(this.cache[gvk][namespacedName(spec)])) {
+            if (has(this.cache[gvk]) && hasSelector(this.scopes[gvk])) {
+                // The object may exist without matching the selectors of the scope.
+                throw new CacheScopeError(`${gvk} ${namespacedName(spec)} is not cached, only objects matching the selectors of the scope are cached`);
+            }
+            throw new NotFound();
+        }
+        const obj = this.cache[gvk][namespacedName(spec)];
+        // The passed object is owned by the caller and has to stay modifiable.
+        Object.assign(spec, this.options.objectStrategy === ObjectStrategy.Shared ? obj : deepCopy(obj));
+    }
+
+    /**
+     * Lists the cached objects of a kind.
+     * Note that only objects within the cached scope of the kind are returned.
+     * @throws {NotFound} if the kind is not cached.
+     * @throws {CacheScopeError} if the list could select objects outside of the cached scope,
+     * i.e. of other namespaces or without the selectors of the scope.
+     */
+    public async list<T extends KubernetesObject>(
+        apiVersion: string,
+        kind: string,
+        namespace?: string,
+        pretty?: string,
+        exact?: boolean,
+        exportt?: boolean,
+        fieldSelector?: string,
+        labelSelector?: string,
+        limit?: number,
+        continueToken?: string,
+        options?: { headers: { [name: string]: string } }): Promise<KubernetesListObject<T>> {
+        const gvk = groupVersionKindKey({apiVersion, kind});
+        if (!has(this.cache[gvk])) {
             throw new NotFound();
         }
-        Object.assign(spec, this.cache[gvk][namespacedName(spec)])
+        if (has(limit) || has(continueToken)) {
+            throw new Error('Limit and continue tokens are not supported by the cache');
+        }
+        this.checkListScope(gvk, namespace, labelSelector, fieldSelector);
+        const matchesLabels = parseLabelSelector(labelSelector ?? '');
+        const matchesFields = parseFieldSelector(fieldSelector ?? '');
+        const items = Object.values(this.cache[gvk])
+            .filter(o => !has(namespace) || o.metadata.namespace === namespace)
+            .filter(o => matchesLabels(o.metadata.labels) && matchesFields(o));
+        return {
+            apiVersion,
+            kind: `${kind}List`,
+            metadata: {},
+            items: items.map(o => this.handOut(o)) as T[],
+        };
+    }
+
+    public addIndex(object: ObjectKind<any>, name: string, indexFunc: IndexFunc): void {
+        const gvk = groupVersionKindKey(object);
+        if (!has(this.indexers[gvk])) {
+            this.indexers[gvk] = new Indexer();
+        }
+        this.indexers[gvk].addIndex(name, indexFunc, this.cache[gvk] ?? {});
+    }
+
+    /**
+     * @throws {Error} if the index does not exist.
+     */
+    public byIndex<T extends KubernetesObject>(object: ObjectKind<T>, name: string, value: string): T[] {
+        const gvk = groupVersionKindKey(object);
+        if (!has(this.indexers[gvk]) || !this.indexers[gvk].hasIndex(name)) {
+            throw new Error(`Index ${name} does not exist for ${gvk}`);
+        }
+        return this.indexers[gvk].byIndex(name, value)
+            .map(key => this.cache[gvk][key])
+            .filter(has)
+            .map(o => this.handOut(o)) as T[];
+    }
+
+    public async waitForSync(options: WaitForSyncOptions = {}): Promise<void> {
+        const synced = Promise.all(Object.values(this.syncs).map(s => s.promise));
+        const {timeout, signal} = options;
+        if (signal?.aborted) {
+            throw new Error('Waiting for cache sync was aborted');
+        }
+        let timer: NodeJS.Timeout | undefined;
+        let removeAbortListener: (() => void) | undefined;
+        const cancelled = new Promise<never>((_, reject) => {
+            if (has(timeout)) {
+                timer = setTimeout(() => reject(new Error(`Timed out waiting for cache sync after ${timeout}ms`)), timeout);
+            }
+            if (has(signal)) {
+                removeAbortListener = onAbort(signal, () => reject(new Error('Waiting for cache sync was aborted')));
+            }
+        });
+        try {
+            await Promise.race([synced, cancelled]);
+        } finally {
+            if (has(timer)) {
+                clearTimeout(timer);
+            }
+            removeAbortListener?.();
+        }
     }
 
-    public waitForSync(): Promise<void> {
-        return Promise.resolve(undefined);
+    public hasSynced(object: ObjectKind<any>): boolean {
+        return this.syncs[groupVersionKindKey(object)]?.synced === true;
     }
 
-    private async startSync(): Promise<void> {
-        await Promise.all(Object.keys(this.cache).map(gvk => this.startWatch(gvk)));
+    private stopped(): boolean {
+        return this.signal?.aborted === true;
+    }
 
+    private checkNamespaceScope(gvk: string, namespace?: string): void {
+        const namespaces = this.scopes[gvk]?.namespaces;
+        if (has(namespaces) && has(namespace) && !namespaces.includes(namespace)) {
+            throw new CacheScopeError(`Namespace ${namespace} of ${gvk} is outside of the cached namespaces ${namespaces.join(',')}`);
+        }
     }
 
-    private async startWatch(gvk: string): Promise<void> {
-        if (!has(this.metadata[gvk]) || has(this.metadata[gvk].lastResourceVersion)) {
-            await this.initializeCache(gvk);
+    /**
+     * @throws {CacheScopeError} if the list could select objects outside of the cached scope.
+     */
+    private checkListScope(gvk: string, namespace?: string, labelSelector?: string, fieldSelector?: string): void {
+        this.checkNamespaceScope(gvk, namespace);
+        const scope = this.scopes[gvk];
+        const namespaces = scope?.namespaces;
+        // Cluster scoped kinds are watched with the empty namespace.
+        if (!has(namespace) && has(namespaces) && !has(this.metadata[gvk]?.[''])) {
+            throw new CacheScopeError(`${gvk} is only cached in the namespaces ${namespaces.join(',')} and can not be listed in all namespaces`);
+        }
+        if (!withinSelector(labelSelector, scope?.labelSelector) || !withinSelector(fieldSelector, scope?.fieldSelector)) {
+            throw new CacheScopeError(`The selectors of a list of ${gvk} have to contain the selectors of the cached scope`);
         }
+    }
+
+    private configuredScope(gvk: string): CacheScope {
+        const configured = (this.options.scopes ?? []).find(s => groupVersionKindKey(s.object) === gvk);
+        return configured?.scope ?? this.options.defaultScope ?? {};
+    }
 
-        const req = await this.client.watch(this.metadata[gvk]!.resourcePath, {
-            allowWatchBookmarks: false,
-            resourceVersion: this.metadata[gvk]?.lastResourceVersion,
-        }, (type: KubernetesEventType, apiObject: KubernetesObject, watchObject?: WatchObject) => {
+    /**
+     * Starts the watches of the kind and marks the kind as synced once their initial lists are loaded.
+     */
+    private async startInformer(gvk: string): Promise<void> {
+        const backoff = new Backoff();
+        while (!this.stopped()) {
+            try {
+                await this.initializeMetadata(gvk);
+                break;
+            } catch (e) {
+                this.logger.error('Unable to resolve the resource path', {kind: gvk, error: e});
+                await sleep(backoff.next(), this.signal);
+            }
+        }
+        if (this.stopped()) {
+            return;
+        }
+        await Promise.all(Object.keys(this.metadata[gvk]).map(namespace => this.startWatch(gvk, namespace)));
+        this.syncs[gvk].synced = true;
+        this.syncs[gvk].resolve();
+    }
+
+    /**
+     * Determines the namespaces that have to be watched for the scope of the kind.
+     */
+    private async initializeMetadata(gvk: string): Promise<void> {
+        const {apiVersion, kind} = parseGroupVersionKind(gvk);
+        const clusterPath = await this.client.getAPIResourcePath(apiVersion, kind);
+        this.metadata[gvk] = {};
+        const namespaces = this.scopes[gvk].namespaces;
+        if (!has(namespaces)) {
+            this.metadata[gvk][''] = {resourcePath: clusterPath, backoff: new Backoff()};
+            return;
+        }
+        for (const namespace of namespaces) {
+            const resourcePath = await this.client.getAPIResourcePath(apiVersion, kind, namespace);
+            if (resourcePath === clusterPath) {
+                // Cluster scoped kinds do not have namespaced paths.
+                this.metadata[gvk] = {'': {resourcePath: clusterPath, backoff: new Backoff()}};
+                return;
+            }
+            this.metadata[gvk][namespace] = {resourcePath, backoff: new Backoff()};
+        }
+    }
+
+    /**
+     * Starts watching the objects of the kind from the last known resource version.
+     * The objects are listed before if no resource version is known, i.e. initially and after the resource version expired.
+     * Resolves once the list is loaded and the watch is started.
+     */
+    private async startWatch(gvk: string, namespace: string): Promise<void> {
+        const metadata = this.metadata[gvk][namespace];
+        const scope = this.scopes[gvk];
+        let req: RequestResult;
+        const startedAt = Date.now();
+        if (this.stopped()) {
+            return;
+        }
+        try {
+            if (!has(metadata.lastResourceVersion)) {
+                await this.initializeCache(gvk, namespace);
+                metadata.backoff.reset();
+            }
+            if (this.stopped()) {
+                return;
+            }
+            req = await this.client.watch(metadata.resourcePath, {
+                allowWatchBookmarks: true,
+                resourceVersion: metadata.lastResourceVersion,
+                labelSelector: scope.labelSelector,
+                fieldSelector: scope.fieldSelector,
+                // Spread the reconnects of all watches.
+                timeoutSeconds: Math.floor(minWatchTimeout * (1 + Math.random())),
+            }, (type: KubernetesEventType, apiObject: KubernetesObject, watchObject?: WatchObject) => {
+                if (!has(type) && (watchObject as unknown as V1Status)?.kind === 'Status') {
+                    // The api server responded with an error status instead of a watch stream.
+                    type = KubernetesEventType.ERROR;
+                    apiObject = watchObject as unknown as KubernetesObject;
+                }
+                let oldObject: KubernetesObject | undefined;
                 switch (type) {
                     case KubernetesEventType.ADDED:
                         this.recordObjectAdded(apiObject);
                         break;
                     case KubernetesEventType.MODIFIED:
-                        this.recordObjectModified(apiObject);
+                        oldObject = this.recordObjectModified(apiObject);
                         break;
                     case KubernetesEventType.DELETED:
                         this.recordObjectDeleted(apiObject);
                         break;
+                    case KubernetesEventType.BOOKMARK:
+                        metadata.lastResourceVersion = apiObject.metadata.resourceVersion;
+                        metadata.backoff.reset();
+                        return;
                     case KubernetesEventType.ERROR:
                         const status = apiObject as V1Status;
-                        if (status.code === resourceVersionExpiredCode
-                            && status.reason === resourceVersionExpiredReason) {
-                            this.metadata[gvk].lastResourceVersion = undefined;
+                        if (status.code === resourceVersionExpiredCode) {
+                            // The watch is restarted with a relist by the done callback.
+                            metadata.lastResourceVersion = undefined;
                             req.abort();
                             return;
                         }
-                        console.error(`Error during watch: Reason: ${status.reason} - ${status.message}`);
+                        this.logger.error('Error during watch', {kind: gvk, reason: status.reason, message: status.message});
                         return;
                     default:
-                        console.error(`Unknown kube watch event type: ${type}`);
+                        this.logger.warn('Unknown watch event type', {kind: gvk, type});
                         return;
                 }
                 if (has(apiObject) && has(apiObject.metadata)) {
-                    this.metadata[gvk].lastResourceVersion = apiObject.metadata?.resourceVersion;
+                    metadata.lastResourceVersion = apiObject.metadata?.resourceVersion;
                 }
+                metadata.backoff.reset();
 
+                const object = type === KubernetesEventType.DELETED
+                    ? this.protect(apiObject)
+                    : this.handOut(this.cache[gvk][namespacedName(apiObject)]);
                 this.listeners[gvk]
-                    .forEach(l => l(type, apiObject, watchObject));
+                    .forEach(l => l(type, object, watchObject, has(oldObject) ? this.handOut(oldObject) : undefined));
             },
             // "done" callback is called either when connection is closed or when there is an error.
             // eslint-disable-next-line  @typescript-eslint/no-explicit-any
             async (error: any) => {
-                if (has(error)) {
+                metadata.request = undefined;
+                if (this.stopped()) {
+                    return;
+                }
+                let delay = 0;
+                if (error?.statusCode === resourceVersionExpiredCode) {
+                    // The watch request itself was answered with 410, the watch is restarted with a relist.
+                    metadata.lastResourceVersion = undefined;
+                } else if (has(error)) {
                     const msg = (error instanceof Error) ? error.message : JSON.stringify(error);
                     if (msg !== 'aborted') { // The watch get request timeouts
-                        console.error(`Kubernetes watch of ${gvk} disconnected: ${msg}`);
+                        this.logger.warn('Watch disconnected', {kind: gvk, namespace, error});
+                        delay = metadata.backoff.next();
                     }
+                } else if (Date.now() - startedAt < minWatchDuration) {
+                    // The api server closes watches immediately if it is overloaded.
+                    delay = metadata.backoff.next();
                 }
-                this.startWatch(gvk);
+                await sleep(delay, this.signal);
+                if (this.stopped()) {
+                    return;
+                }
+                cacheWatchRestarts.inc({kind: gvk});
+                this.startWatch(gvk, namespace);
             },
-        );
+            );
+            metadata.request = req;
+            if (this.stopped()) {
+                // The cache was stopped while the watch was started.
+                req.abort();
+            }
+        } catch (e) {
+            this.logger.error('Unable to list and watch', {kind: gvk, namespace, error: e});
+            await sleep(metadata.backoff.next(), this.signal);
+            if (this.stopped()) {
+                return;
+            }
+            cacheWatchRestarts.inc({kind: gvk});
+            return this.startWatch(gvk, namespace);
+        }
     }
 
     /**
-     * lists all resources of the given object and adds them to the cache;
+     * lists all resources of the given object in the namespace page by page and replaces them in the cache;
+     * Listeners are notified about the differences to the previously cached objects. Objects that are not listed anymore
+     * were deleted while the watch was disconnected and are reported as deleted.
      */
-    private async initializeCache(gvk: string): Promise<void> {
+    private async initializeCache(gvk: string, namespace: string): Promise<void> {
         const {apiVersion, kind} = parseGroupVersionKind(gvk);
-        const list = await this.client.list<any>(apiVersion, kind);
-        this.metadata[gvk] = {
-            lastResourceVersion: list.metadata!.resourceVersion!,
-            resourcePath: await this.client.getAPIResourcePath(apiVersion, kind),
-        };
+        const scope = this.scopes[gvk];
+        let items: KubernetesObject[] = [];
+        let resourceVersion: string | undefined;
+        for await (const page of listPages<KubernetesObject>(this.client, {apiVersion, kind}, {
+            namespace: namespace === '' ? undefined : namespace,
+            fieldSelector: scope.fieldSelector,
+            labelSelector: scope.labelSelector,
+            pageSize: this.options.listPageSize,
+            onRestart: () => {
+                this.logger.info('Continue token expired, restarting list', {kind: gvk, namespace});
+                items = [];
+            },
+        })) {
+            items.push(...page.items);
+            resourceVersion = page.metadata?.resourceVersion;
+        }
+        this.metadata[gvk][namespace].lastResourceVersion = resourceVersion!;
 
-        list.items.forEach(o => {
-            this.cache[groupVersionKindKey(o)] = {};
-            this.recordObjectAdded(o);
+        const previous = new Map(Object.entries(this.cache[gvk])
+            .filter(([key]) => namespace === '' || parseNamespacedName(key).namespace === namespace));
+        items.forEach(o => {
+            // Items of a list do not necessarily contain their kind.
+            const obj: KubernetesObject = {...o, apiVersion, kind};
+            const key = namespacedName(obj);
+            const oldObj = previous.get(key);
+            previous.delete(key);
+            if (has(oldObj) && oldObj.metadata.resourceVersion === obj.metadata.resourceVersion) {
+                return;
+            }
+            this.store(gvk, key, obj);
+            const type = has(oldObj) ? KubernetesEventType.MODIFIED : KubernetesEventType.ADDED;
+            const object = this.handOut(this.cache[gvk][key]);
+            this.listeners[gvk]
+                .forEach(l => l(type, object, undefined, has(oldObj) ? this.handOut(oldObj) : undefined));
+        });
+        previous.forEach((oldObj, key) => {
+            this.remove(gvk, key);
+            const object = this.handOut(oldObj);
+            this.listeners[gvk]
+                .forEach(l => l(KubernetesEventType.DELETED, object));
         });
     }
 
     private recordObjectAdded(obj: KubernetesObject) {
-        // todo: deep copy object
-        this.cache[groupVersionKindKey(obj)][namespacedName(obj)] = obj;
+        this.store(groupVersionKindKey(obj), namespacedName(obj), obj);
     }
 
-    private recordObjectModified(obj: KubernetesObject) {
-        // todo: deep copy object
-        this.cache[groupVersionKindKey(obj)][namespacedName(obj)] = obj;
+    /**
+     * @return the previous state of the object.
+     */
+    private recordObjectModified(obj: KubernetesObject): KubernetesObject | undefined {
+        return this.store(groupVersionKindKey(obj), namespacedName(obj), obj);
     }
 
     private recordObjectDeleted(obj: KubernetesObject) {
-        delete this.cache[groupVersionKindKey(obj)][namespacedName(obj)];
+        this.remove(groupVersionKindKey(obj), namespacedName(obj));
+    }
+
+    /**
+     * Stores the object according to the object strategy and updates the indexes of its kind.
+     * @return the previous state of the object.
+     */
+    private store(gvk: string, key: string, obj: KubernetesObject): KubernetesObject | undefined {
+        const oldObj = this.remove(gvk, key);
+        obj = this.protect(obj);
+        this.cache[gvk][key] = obj;
+        this.indexers[gvk]?.add(key, obj);
+        cacheObjects.inc({kind: gvk});
+        return oldObj;
+    }
+
+    /**
+     * Copies or freezes an object that is stored or passed to listeners according to the object strategy.
+     */
+    private protect<T extends KubernetesObject>(obj: T): T {
+        switch (this.options.objectStrategy ?? ObjectStrategy.Copy) {
+            case ObjectStrategy.Copy:
+                return deepCopy(obj);
+            case ObjectStrategy.Freeze:
+                return deepFreeze(deepCopy(obj));
+            default:
+                return obj;
+        }
+    }
+
+    /**
+     * Prepares a cached object to be handed out according to the object strategy.
+     */
+    private handOut<T extends KubernetesObject>(obj: T): T {
+        return (this.options.objectStrategy ?? ObjectStrategy.Copy) === ObjectStrategy.Copy ? deepCopy(obj) : obj;
+    }
+
+    /**
+     * Removes the object and updates the indexes of its kind.
+     * @return the removed object.
+     */
+    private remove(gvk: string, key: string): KubernetesObject | undefined {
+        const obj = this.cache[gvk][key];
+        if (has(obj)) {
+            this.indexers[gvk]?.delete(key, obj);
+            delete this.cache[gvk][key];
+            cacheObjects.dec({kind: gvk});
+        }
+        return obj;
     }
 
 }
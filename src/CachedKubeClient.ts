@@ -1,17 +1,33 @@
 import {
     KubeConfig,
+    KubernetesListObject,
+    RequestResult,
+    V1DeleteOptions,
+    V1Status,
 } from '@kubernetes/client-node';
-import {KubeClient, KubeClientReader, KubernetesObject, KubernetesResponse, WatchCallback} from './KubeClient';
-import {DefaultKubeClient} from "./DefaultKubeClient";
+import {has} from '@0cfg/utils-common/lib/has';
+import {DefaultKubeClient} from './DefaultKubeClient';
+import {KubeClient, KubeClientReader, KubernetesObject, WatchCallback} from './KubeClient';
 import {isNotFoundError} from "./KubernetesError";
+import {CacheScopeError} from './Cache';
+import {Patch, PatchOptions} from './Patch';
 
 
-export class CachedKubeClient extends DefaultKubeClient implements KubeClient {
+/**
+ * Reads objects from the cache and falls back to the client for objects that are not cached.
+ * All writes are sent to the client.
+ */
+export class CachedKubeClient implements KubeClient {
+    private readonly client: KubeClient;
+
+    /**
+     * @param client The client writes and uncached reads are sent to. A DefaultKubeClient is created for a KubeConfig.
+     */
     public constructor(
-        kubeConfig: KubeConfig,
+        client: KubeConfig | KubeClient,
         private readonly cache: KubeClientReader,
     ) {
-        super(kubeConfig);
+        this.client = client instanceof KubeConfig ? new DefaultKubeClient(client) : client;
     }
 
     public async get<T extends KubernetesObject>(
@@ -24,12 +40,125 @@ export class CachedKubeClient extends DefaultKubeClient implements KubeClient {
         try {
             await this.cache.get(spec, pretty, exact, exportt, options);
         } catch (e) {
-            if (isNotFoundError(e)) {
-                await super.get(spec, pretty, exact, exportt, options);
+            if (isNotFoundError(e) || e instanceof CacheScopeError) {
+                await this.client.get(spec, pretty, exact, exportt, options);
                 return;
             }
             throw e;
         }
     }
 
+    /**
+     * Lists the objects from the cache if their kind is cached and the list is within the cached scope of the kind.
+     * Requests with limit or continue token are always sent to the api server.
+     */
+    public async list<T extends KubernetesObject>(
+        apiVersion: string,
+        kind: string,
+        namespace?: string,
+        pretty?: string,
+        exact?: boolean,
+        exportt?: boolean,
+        fieldSelector?: string,
+        labelSelector?: string,
+        limit?: number,
+        continueToken?: string,
+        options?: { headers: { [name: string]: string } }
+    ): Promise<KubernetesListObject<T>> {
+        const args = [apiVersion, kind, namespace, pretty, exact, exportt, fieldSelector, labelSelector, limit, continueToken, options] as const;
+        if (has(limit) || has(continueToken)) {
+            return this.client.list<T>(...args);
+        }
+        try {
+            return await this.cache.list<T>(...args);
+        } catch (e) {
+            if (isNotFoundError(e) || e instanceof CacheScopeError) {
+                return this.client.list<T>(...args);
+            }
+            throw e;
+        }
+    }
+
+    public create<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<void> {
+        return this.client.create(spec, pretty, dryRun, fieldManager, options);
+    }
+
+    public update<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<void> {
+        return this.client.update(spec, pretty, dryRun, fieldManager, options);
+    }
+
+    public patch<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        force?: boolean,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<void> {
+        return this.client.patch(spec, pretty, dryRun, fieldManager, force, options);
+    }
+
+    public patchWith<T extends KubernetesObject>(spec: T, patch: Patch, options?: PatchOptions): Promise<void> {
+        return this.client.patchWith(spec, patch, options);
+    }
+
+    public updateStatus<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<void> {
+        return this.client.updateStatus(spec, pretty, dryRun, fieldManager, options);
+    }
+
+    public patchStatus<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        force?: boolean,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<void> {
+        return this.client.patchStatus(spec, pretty, dryRun, fieldManager, force, options);
+    }
+
+    public delete<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        gracePeriodSeconds?: number,
+        orphanDependents?: boolean,
+        propagationPolicy?: string,
+        body?: V1DeleteOptions,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<V1Status> {
+        return this.client.delete(spec, pretty, dryRun, gracePeriodSeconds, orphanDependents, propagationPolicy, body, options);
+    }
+
+    public watch(
+        path: string,
+        queryParams: any,
+        callback: WatchCallback,
+        done: (err: any) => void,
+    ): Promise<RequestResult> {
+        return this.client.watch(path, queryParams, callback, done);
+    }
+
+    public getAPIResourcePath(apiVersion: string, kind: string, namespace?: string): Promise<string> {
+        return this.client.getAPIResourcePath(apiVersion, kind, namespace);
+    }
+
 }
@@ -2,14 +2,77 @@ import {Manager} from "./Manager";
 import {KubernetesObject} from "@kubernetes/client-node";
 import {KubeClient, ObjectKind} from "./KubeClient";
 import {has} from "@0cfg/utils-common/lib/has";
+import {enqueueRequestForOwner, MapFunc} from './EventHandler';
+import {Predicate} from './Predicate';
+import {EventRecorder} from './EventRecorder';
+import {getLogger, Logger} from './Logger';
 
 export interface IController<T extends KubernetesObject> {
     setKubeClient(kubeClient: KubeClient): void;
+    setEventRecorder?(eventRecorder: EventRecorder): void;
+    setLogger?(logger: Logger): void;
     for(): ObjectKind<T>;
+    /**
+     * Events of the reconciled kind are only enqueued if they pass all predicates.
+     */
+    predicates?(): Predicate[];
+    /**
+     * Secondary kinds that are watched for the controller. Optional for controllers that do not extend Controller.
+     */
+    watchedKinds?(): WatchedKind[];
+    reconcile(object: T, context: ReconcileContext): Promise<ReconcileResult | void>;
+}
+
+/**
+ * Describes a single reconcile of an object.
+ */
+export interface ReconcileContext {
+    /**
+     * Unique id of the reconcile.
+     */
+    reconcileId: string;
+
+    /**
+     * Logger with the controller name, kind, namespace, name and reconcile id as fields.
+     */
+    logger: Logger;
+}
+
+/**
+ * Describes a secondary kind whose watch events are mapped to reconcile requests of the controller.
+ */
+export interface WatchedKind {
+    object: ObjectKind<any>,
+    mapFunc: MapFunc,
+    /**
+     * Events are only mapped if they pass all predicates.
+     */
+    predicates: Predicate[],
+}
+
+/**
+ * Describes the result of a reconcile.
+ */
+export interface ReconcileResult {
+    /**
+     * Requeue the object with the exponential backoff of the controller's rate limiter.
+     */
+    requeue?: boolean;
+
+    /**
+     * Requeue the object after the given duration in milliseconds.
+     * Takes precedence over requeue.
+     */
+    requeueAfter?: number;
 }
 
 export abstract class Controller<T extends KubernetesObject> implements IController<T>{
     private _kubeClient?: KubeClient;
+    private _eventRecorder?: EventRecorder;
+    private _logger?: Logger;
+    private readonly watched: WatchedKind[] = [];
+    private readonly forPredicates: Predicate[] = [];
+    private readonly eventFilters: Predicate[] = [];
 
     constructor(
         private readonly object: ObjectKind<T>,
@@ -19,10 +82,59 @@ export abstract class Controller<T extends KubernetesObject> implements IControl
         this._kubeClient = kubeClient;
     }
 
+    public setEventRecorder(eventRecorder: EventRecorder) {
+        this._eventRecorder = eventRecorder;
+    }
+
+    public setLogger(logger: Logger) {
+        this._logger = logger;
+    }
+
     public for(): ObjectKind<T> {
         return this.object;
     }
 
+    /**
+     * Only reconciles watch events of the controller's kind that pass all predicates.
+     */
+    public withPredicates(...predicates: Predicate[]): this {
+        this.forPredicates.push(...predicates);
+        return this;
+    }
+
+    /**
+     * Only reconciles watch events of all watched kinds that pass all predicates.
+     */
+    public withEventFilter(...predicates: Predicate[]): this {
+        this.eventFilters.push(...predicates);
+        return this;
+    }
+
+    /**
+     * Reconciles the controlling owner of the controller's kind when an object of the given kind changes.
+     * The owner is resolved from the ownerReferences of the object that are marked with controller: true.
+     */
+    public owns(object: ObjectKind<any>, ...predicates: Predicate[]): this {
+        this.watched.push({object, mapFunc: enqueueRequestForOwner(this.object), predicates});
+        return this;
+    }
+
+    /**
+     * Reconciles the objects returned by the map function when an object of the given kind changes.
+     */
+    public watches(object: ObjectKind<any>, mapFunc: MapFunc, ...predicates: Predicate[]): this {
+        this.watched.push({object, mapFunc, predicates});
+        return this;
+    }
+
+    public predicates(): Predicate[] {
+        return [...this.eventFilters, ...this.forPredicates];
+    }
+
+    public watchedKinds(): WatchedKind[] {
+        return this.watched.map(w => ({...w, predicates: [...this.eventFilters, ...w.predicates]}));
+    }
+
     protected kubeClient(): KubeClient {
         if (!has(this._kubeClient)) {
             throw new Error(`KubeClient not defined`);
@@ -30,5 +142,27 @@ export abstract class Controller<T extends KubernetesObject> implements IControl
         return this._kubeClient;
     }
 
-    abstract reconcile(object: T): Promise<void>;
+    /**
+     * Records Events about objects, e.g. eventRecorder().warning(object, 'InvalidSpec', 'replicas must be positive').
+     */
+    protected eventRecorder(): EventRecorder {
+        if (!has(this._eventRecorder)) {
+            throw new Error('EventRecorder not defined');
+        }
+        return this._eventRecorder;
+    }
+
+    /**
+     * Logger of the controller. Use the logger of the reconcile context within reconciles.
+     */
+    protected logger(): Logger {
+        return this._logger ?? getLogger();
+    }
+
+    /**
+     * Called by the manager with the latest state of an added, modified or deleted object of the watched kind.
+     * Deleted objects are passed in the state immediately before their deletion.
+     * Throwing an error requeues the object with an exponential backoff.
+     */
+    abstract reconcile(object: T, context: ReconcileContext): Promise<ReconcileResult | void>;
 }
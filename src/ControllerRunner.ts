@@ -0,0 +1,231 @@
+import {randomUUID} from 'crypto';
+import {has} from '@0cfg/utils-common/lib/has';
+import {CacheScopeError} from './Cache';
+import {IController, ReconcileContext, ReconcileResult} from './Controller';
+import {ReconcileRequest} from './EventHandler';
+import {addFinalizer, containsFinalizer, patchFinalizers, removeFinalizer} from './Finalizer';
+import {IFinalizingController, isFinalizingController} from './FinalizingController';
+import {KubeClient, KubeClientReader, KubernetesEventType, KubernetesObject} from './KubeClient';
+import {isNotFoundError} from './KubernetesError';
+import {namespacedName, parseNamespacedName} from './ObjectUtils';
+import {getLogger, Logger} from './Logger';
+import {RateLimiter} from './RateLimiter';
+import {reconcileErrors, reconcileTime, reconcileTotal} from './RuntimeMetrics';
+import {WorkQueue} from './WorkQueue';
+
+export interface ControllerOptions {
+    /**
+     * Maximum number of reconciles that run concurrently. Defaults to 1.
+     * Independent of this value a single object is never reconciled concurrently.
+     */
+    maxConcurrentReconciles?: number;
+
+    /**
+     * Rate limiter that decides the backoff of objects whose reconcile failed or requested a requeue.
+     * Defaults to an exponential per-item backoff.
+     */
+    rateLimiter?: RateLimiter;
+
+    /**
+     * Name of the controller in metrics and logs. Defaults to the lower case kind of the reconciled objects.
+     */
+    name?: string;
+
+    /**
+     * Defaults to the logger returned by getLogger().
+     */
+    logger?: Logger;
+}
+
+/**
+ * Runs the reconcile loop of a controller.
+ * Watch events are queued by the "namespace/name" key of their object and processed by the configured number of workers.
+ * The object of a key is read from the cache right before it is reconciled, so bursts of events result in a single reconcile
+ * of the latest state.
+ */
+export class ControllerRunner<T extends KubernetesObject> {
+    private queue: WorkQueue;
+    /**
+     * Last known state of deleted objects that are not yet reconciled.
+     */
+    private readonly tombstones = new Map<string, T>();
+    private workers: Promise<void>[] = [];
+    private readonly name: string;
+    private readonly logger: Logger;
+
+    public constructor(
+        private readonly controller: IController<any>,
+        private readonly client: KubeClient,
+        private readonly reader: KubeClientReader,
+        private readonly options: ControllerOptions = {},
+    ) {
+        this.name = options.name ?? controller.for().kind.toLowerCase();
+        this.logger = (options.logger ?? getLogger()).child({controller: this.name});
+        this.queue = new WorkQueue(options.rateLimiter, this.name);
+    }
+
+    public getName(): string {
+        return this.name;
+    }
+
+    /**
+     * Returns the logger of the controller.
+     */
+    public getLogger(): Logger {
+        return this.logger;
+    }
+
+    /**
+     * Queues the object of a watch event for reconciliation.
+     */
+    public enqueue(type: KubernetesEventType, object: T): void {
+        switch (type) {
+            case KubernetesEventType.ADDED:
+            case KubernetesEventType.MODIFIED:
+                this.tombstones.delete(namespacedName(object));
+                break;
+            case KubernetesEventType.DELETED:
+                this.tombstones.set(namespacedName(object), object);
+                break;
+            default:
+                return;
+        }
+        this.queue.add(namespacedName(object));
+    }
+
+    /**
+     * Queues the object identified by the request for reconciliation.
+     */
+    public enqueueRequest(request: ReconcileRequest): void {
+        this.queue.add(namespacedName({...this.controller.for(), metadata: request}));
+    }
+
+    /**
+     * Starts the workers that process the queue.
+     */
+    public start(): void {
+        const workers = Math.max(1, this.options.maxConcurrentReconciles ?? 1);
+        for (let i = 0; i < workers; i++) {
+            this.workers.push(this.runWorker());
+        }
+    }
+
+    /**
+     * Shuts down the queue. Workers finish their current reconcile and exit afterwards.
+     * Resolves once all workers exited.
+     */
+    public async stop(): Promise<void> {
+        this.queue.shutDown();
+        await Promise.all(this.workers.splice(0));
+    }
+
+    private async runWorker(): Promise<void> {
+        for (;;) {
+            const key = await this.queue.get();
+            if (!has(key)) {
+                return;
+            }
+            await this.reconcileHandler(key);
+            this.queue.done(key);
+        }
+    }
+
+    private async reconcileHandler(key: string): Promise<void> {
+        const labels = {controller: this.name};
+        const observeTime = reconcileTime.startTimer(labels);
+        const {namespace, name} = parseNamespacedName(key);
+        const reconcileId = randomUUID();
+        const context: ReconcileContext = {
+            reconcileId,
+            logger: this.logger.child({kind: this.controller.for().kind, namespace, name, reconcileId}),
+        };
+        try {
+            const object = await this.resolve(key);
+            if (!has(object)) {
+                // The object was deleted and its deletion was already reconciled.
+                this.queue.forget(key);
+                return;
+            }
+            const result: ReconcileResult = (isFinalizingController(this.controller) && this.tombstones.get(key) !== object)
+                ? await this.finalizeOrReconcile(this.controller, object, context)
+                : (await this.controller.reconcile(object, context)) ?? {};
+            if (has(result.requeueAfter)) {
+                reconcileTotal.inc({...labels, result: 'requeue_after'});
+                this.queue.forget(key);
+                this.removeTombstone(key, object);
+                this.queue.addAfter(key, result.requeueAfter);
+                return;
+            }
+            if (result.requeue === true) {
+                reconcileTotal.inc({...labels, result: 'requeue'});
+                this.queue.addRateLimited(key);
+                return;
+            }
+            reconcileTotal.inc({...labels, result: 'success'});
+            this.queue.forget(key);
+            this.removeTombstone(key, object);
+        } catch (e) {
+            context.logger.error('Reconcile failed', {error: e});
+            reconcileTotal.inc({...labels, result: 'error'});
+            reconcileErrors.inc(labels);
+            this.queue.addRateLimited(key);
+        } finally {
+            observeTime();
+        }
+    }
+
+    /**
+     * Finalizes objects that are marked for deletion and removes the finalizer afterwards.
+     * All other objects get the finalizer before they are reconciled.
+     * If removing the finalizer fails, the object is finalized again on the next attempt.
+     */
+    private async finalizeOrReconcile(
+        controller: IFinalizingController<any>,
+        object: T,
+        context: ReconcileContext,
+    ): Promise<ReconcileResult> {
+        const finalizer = controller.finalizer();
+        if (has(object.metadata.deletionTimestamp)) {
+            if (containsFinalizer(object, finalizer)) {
+                await controller.finalize(object, context);
+                removeFinalizer(object, finalizer);
+                await patchFinalizers(this.client, object);
+            }
+            return {};
+        }
+        if (addFinalizer(object, finalizer)) {
+            await patchFinalizers(this.client, object);
+        }
+        return (await controller.reconcile(object, context)) ?? {};
+    }
+
+    /**
+     * Removes the tombstone once the deletion of the object was reconciled,
+     * unless the object was deleted again in the meantime.
+     */
+    private removeTombstone(key: string, object: T): void {
+        if (this.tombstones.get(key) === object) {
+            this.tombstones.delete(key);
+        }
+    }
+
+    /**
+     * Reads the current state of the object from the cache.
+     * Falls back to the last known state if the object was deleted or is outside of the cached scope.
+     */
+    private async resolve(key: string): Promise<T | undefined> {
+        const object = {
+            ...this.controller.for(),
+            metadata: parseNamespacedName(key),
+        } as T;
+        try {
+            await this.reader.get(object);
+            return object;
+        } catch (e) {
+            if (isNotFoundError(e) || e instanceof CacheScopeError) {
+                return this.tombstones.get(key);
+            }
+            throw e;
+        }
+    }
+}
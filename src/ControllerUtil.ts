@@ -0,0 +1,219 @@
+import {V1OwnerReference} from '@kubernetes/client-node';
+import {has} from '@0cfg/utils-common/lib/has';
+import {KubeClient, KubernetesObject} from './KubeClient';
+import {isNotFoundError} from './KubernetesError';
+import {deepCopy, deepEqual} from './ObjectUtils';
+import {mergeFrom} from './Patch';
+
+/**
+ * Describes the write createOrUpdate and createOrPatch did.
+ */
+export enum OperationResult {
+    Unchanged = 'unchanged',
+    Created = 'created',
+    Updated = 'updated',
+}
+
+/**
+ * Thrown if an object should get a controller reference while it is already controlled by another owner.
+ */
+export class AlreadyOwnedError extends Error {
+    public constructor(
+        public readonly object: KubernetesObject,
+        public readonly owner: V1OwnerReference,
+    ) {
+        super(`${object.kind} ${object.metadata.name} is already owned by the controller ${owner.kind} ${owner.name}`);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = this.constructor.name;
+    }
+}
+
+const apiGroup = (apiVersion: string): string => {
+    const s = apiVersion.split('/');
+    return s.length > 1 ? s[0] : '';
+};
+
+/**
+ * Owner references refer to the same object if their api group, kind and name match. The version is ignored.
+ */
+const referSameObject = (a: V1OwnerReference, b: V1OwnerReference): boolean =>
+    apiGroup(a.apiVersion) === apiGroup(b.apiVersion) && a.kind === b.kind && a.name === b.name;
+
+/**
+ * Checks that the owner can own the object. Namespaced owners can only own objects in their namespace,
+ * as the garbage collector resolves owner references in the namespace of the object.
+ * @throws {Error}
+ */
+const validateOwner = (owner: KubernetesObject, object: KubernetesObject): void => {
+    if (!has(owner.metadata.uid)) {
+        throw new Error(`Owner ${owner.kind} ${owner.metadata.name} has no uid, it has to be read from the api server first`);
+    }
+    const ownerNamespace = owner.metadata.namespace ?? '';
+    if (ownerNamespace === '') {
+        return;
+    }
+    const objectNamespace = object.metadata.namespace ?? '';
+    if (objectNamespace === '') {
+        throw new Error(`Cluster scoped ${object.kind} ${object.metadata.name} must not have the namespaced owner `
+            + `${owner.kind} ${ownerNamespace}/${owner.metadata.name}`);
+    }
+    if (objectNamespace !== ownerNamespace) {
+        throw new Error(`Cross namespace owner references are not allowed: ${object.kind} `
+            + `${objectNamespace}/${object.metadata.name} can not be owned by ${owner.kind} ${ownerNamespace}/${owner.metadata.name}`);
+    }
+};
+
+/**
+ * Adds the reference to the owner references of the object or replaces an existing reference to the same owner.
+ */
+const upsertOwnerReference = (object: KubernetesObject, reference: V1OwnerReference): void => {
+    const references = object.metadata.ownerReferences ?? [];
+    const index = references.findIndex(r => referSameObject(r, reference));
+    object.metadata.ownerReferences = index === -1
+        ? [...references, reference]
+        : references.map((r, i) => i === index ? reference : r);
+};
+
+/**
+ * Sets an owner reference to the owner on the object in-place, so the object is garbage collected once the owner
+ * is deleted. An existing reference to the owner is replaced.
+ * @throws {Error} if the owner has no uid or is in another namespace than the object.
+ */
+export const setOwnerReference = (owner: KubernetesObject, object: KubernetesObject): void => {
+    validateOwner(owner, object);
+    upsertOwnerReference(object, {
+        apiVersion: owner.apiVersion,
+        kind: owner.kind,
+        name: owner.metadata.name,
+        uid: owner.metadata.uid!,
+    });
+};
+
+/**
+ * Returns the controller reference of the object.
+ */
+export const getControllerOf = (object: KubernetesObject): V1OwnerReference | undefined =>
+    (object.metadata.ownerReferences ?? []).find(r => r.controller === true);
+
+/**
+ * Sets an owner reference with controller: true and blockOwnerDeletion: true to the owner on the object in-place.
+ * Controllers that watch the object with owns() reconcile the owner when the object changes.
+ * @throws {AlreadyOwnedError} if the object is already controlled by another owner.
+ * @throws {Error} if the owner has no uid or is in another namespace than the object.
+ */
+export const setControllerReference = (owner: KubernetesObject, object: KubernetesObject): void => {
+    validateOwner(owner, object);
+    const reference: V1OwnerReference = {
+        apiVersion: owner.apiVersion,
+        kind: owner.kind,
+        name: owner.metadata.name,
+        uid: owner.metadata.uid!,
+        controller: true,
+        blockOwnerDeletion: true,
+    };
+    const controller = getControllerOf(object);
+    if (has(controller) && !referSameObject(controller, reference)) {
+        throw new AlreadyOwnedError(object, controller);
+    }
+    upsertOwnerReference(object, reference);
+};
+
+/**
+ * Replaces the content of the object in-place with the state.
+ */
+const replaceContent = (object: KubernetesObject, state: KubernetesObject): void => {
+    Object.keys(object).forEach(key => delete (object as unknown as Record<string, unknown>)[key]);
+    Object.assign(object, state);
+};
+
+/**
+ * Reads the object into the passed object. Resolves to false if it does not exist.
+ * @throws {KubernetesError}
+ */
+const read = async (client: KubeClient, object: KubernetesObject): Promise<boolean> => {
+    const current: KubernetesObject = {
+        apiVersion: object.apiVersion,
+        kind: object.kind,
+        metadata: {name: object.metadata.name, namespace: object.metadata.namespace},
+    };
+    try {
+        await client.get(current);
+    } catch (e) {
+        if (isNotFoundError(e)) {
+            return false;
+        }
+        throw e;
+    }
+    replaceContent(object, current);
+    return true;
+};
+
+const withoutStatus = (object: KubernetesObject): KubernetesObject => {
+    const copy: KubernetesObject & {status?: unknown} = {...object};
+    delete copy.status;
+    return copy;
+};
+
+/**
+ * @throws {Error} if the mutate function changed the name or namespace of the object.
+ */
+const mutateExisting = async <T extends KubernetesObject>(object: T, mutate: (object: T) => Promise<void> | void): Promise<void> => {
+    const {name, namespace} = object.metadata;
+    await mutate(object);
+    if (object.metadata.name !== name || object.metadata.namespace !== namespace) {
+        throw new Error('The mutate function must not change the name or namespace of the object');
+    }
+};
+
+/**
+ * Creates or updates the object identified by its name and namespace.
+ * The object is read and passed to the mutate function, which sets the desired state in-place.
+ * If the object does not exist, the mutate function is called with the passed object and the result is created.
+ * The object is only updated if the mutate function changed it.
+ * On return the object holds the state returned by the api server.
+ * @throws {KubernetesError}
+ */
+export const createOrUpdate = async <T extends KubernetesObject>(
+    client: KubeClient,
+    object: T,
+    mutate: (object: T) => Promise<void> | void,
+): Promise<OperationResult> => {
+    if (!await read(client, object)) {
+        await mutate(object);
+        await client.create(object);
+        return OperationResult.Created;
+    }
+    const before = deepCopy(object);
+    await mutateExisting(object, mutate);
+    if (deepEqual(before, object)) {
+        return OperationResult.Unchanged;
+    }
+    await client.update(object);
+    return OperationResult.Updated;
+};
+
+/**
+ * Like createOrUpdate, but writes the changes of an existing object as a merge patch.
+ * The status is not patched, as it can only be written with the status subresource.
+ * @throws {KubernetesError}
+ */
+export const createOrPatch = async <T extends KubernetesObject>(
+    client: KubeClient,
+    object: T,
+    mutate: (object: T) => Promise<void> | void,
+): Promise<OperationResult> => {
+    if (!await read(client, object)) {
+        await mutate(object);
+        await client.create(object);
+        return OperationResult.Created;
+    }
+    const before = deepCopy(object);
+    await mutateExisting(object, mutate);
+    const beforeWithoutStatus = withoutStatus(before);
+    const afterWithoutStatus = withoutStatus(object);
+    if (deepEqual(beforeWithoutStatus, afterWithoutStatus)) {
+        return OperationResult.Unchanged;
+    }
+    await client.patchWith(object, mergeFrom(beforeWithoutStatus, afterWithoutStatus));
+    return OperationResult.Updated;
+};
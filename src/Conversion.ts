@@ -0,0 +1,158 @@
+import {has} from '@0cfg/utils-common/lib/has';
+import {KubernetesObject, ObjectKind} from './KubeClient';
+import {deepCopy} from './ObjectUtils';
+import {BadRequestError, WebhookHandler} from './WebhookServer';
+
+/**
+ * Path of the conversion webhook.
+ */
+export const conversionWebhookPath = '/convert';
+
+/**
+ * The request of an apiextensions.k8s.io/v1 ConversionReview.
+ */
+export interface ConversionRequest {
+    uid: string;
+    desiredAPIVersion: string;
+    objects: KubernetesObject[];
+}
+
+/**
+ * The response of an apiextensions.k8s.io/v1 ConversionReview.
+ * If any object fails to convert, the whole review fails and no objects are returned.
+ */
+export interface ConversionResponse {
+    uid: string;
+    convertedObjects: KubernetesObject[];
+    result: {
+        status: 'Success' | 'Failure',
+        message?: string,
+    };
+}
+
+export interface ConversionReview {
+    apiVersion: 'apiextensions.k8s.io/v1';
+    kind: 'ConversionReview';
+    request?: ConversionRequest;
+    response?: ConversionResponse;
+}
+
+/**
+ * Converts a version of a kind from and to the hub version of the kind.
+ * The conversion functions receive a copy of the object and may modify it.
+ */
+export interface Spoke<S extends KubernetesObject, H extends KubernetesObject> {
+    apiVersion: S['apiVersion'];
+    toHub(object: S): Promise<H> | H;
+    fromHub(hub: H): Promise<S> | S;
+}
+
+/**
+ * Returns the key of the kind in its API group, independent of the version.
+ */
+const groupKindKey = (apiVersion: string, kind: string): string =>
+    [apiVersion.includes('/') ? apiVersion.split('/')[0] : '', kind].join('/');
+
+const describeFailure = ({object, error}: {object: KubernetesObject, error: unknown}): string => {
+    const name = [object.metadata?.namespace, object.metadata?.name].filter(has).join('/');
+    return `${name} (${object.apiVersion}): ${error instanceof Error ? error.message : String(error)}`;
+};
+
+const decodeRequest = (body: any): ConversionRequest => {
+    if (body?.apiVersion !== 'apiextensions.k8s.io/v1' || body?.kind !== 'ConversionReview') {
+        throw new BadRequestError(`Expected an apiextensions.k8s.io/v1 ConversionReview, got ${body?.apiVersion} ${body?.kind}`);
+    }
+    const request = body.request;
+    if (!has(request?.uid) || !has(request.desiredAPIVersion) || !Array.isArray(request.objects)) {
+        throw new BadRequestError('ConversionReview has no valid request');
+    }
+    return request;
+};
+
+/**
+ * Converts objects between the registered versions of kinds.
+ * Every version is converted to the hub version of its kind first and from there to the desired version,
+ * so conversions only have to be implemented between each version and the hub.
+ */
+export class Converter {
+    private readonly kinds = new Map<string, {hub: string, spokes: Map<string, Spoke<any, any>>}>();
+
+    /**
+     * @throws {Error} if conversions are already registered for the kind or a spoke belongs to another group.
+     */
+    public register<H extends KubernetesObject>(hub: ObjectKind<H>, ...spokes: Spoke<any, H>[]): void {
+        const key = groupKindKey(hub.apiVersion, hub.kind);
+        if (this.kinds.has(key)) {
+            throw new Error(`Conversions are already registered for ${key}`);
+        }
+        spokes.forEach(spoke => {
+            if (groupKindKey(spoke.apiVersion, hub.kind) !== key) {
+                throw new Error(`Spoke ${spoke.apiVersion} is not in the group of hub ${hub.apiVersion}`);
+            }
+        });
+        this.kinds.set(key, {hub: hub.apiVersion, spokes: new Map(spokes.map(spoke => [spoke.apiVersion, spoke]))});
+    }
+
+    /**
+     * Converts the object to the desired version of its kind. The object is not modified.
+     * @throws {Error} if no conversion between the versions is registered or a conversion function fails.
+     */
+    public async convert(object: KubernetesObject, desiredApiVersion: string): Promise<KubernetesObject> {
+        if (object.apiVersion === desiredApiVersion) {
+            return object;
+        }
+        const key = groupKindKey(object.apiVersion, object.kind);
+        const conversions = this.kinds.get(key);
+        if (!has(conversions)) {
+            throw new Error(`No conversions registered for ${key}`);
+        }
+        if (groupKindKey(desiredApiVersion, object.kind) !== key) {
+            throw new Error(`Can not convert ${object.apiVersion} to ${desiredApiVersion} of another group`);
+        }
+        const spoke = (apiVersion: string): Spoke<any, any> => {
+            const s = conversions.spokes.get(apiVersion);
+            if (!has(s)) {
+                throw new Error(`No conversion registered for ${apiVersion} ${object.kind}`);
+            }
+            return s;
+        };
+        const hub = object.apiVersion === conversions.hub
+            ? deepCopy(object)
+            : await spoke(object.apiVersion).toHub(deepCopy(object));
+        const converted = desiredApiVersion === conversions.hub ? hub : await spoke(desiredApiVersion).fromHub(hub);
+        return {...converted, apiVersion: desiredApiVersion, kind: object.kind};
+    }
+
+    /**
+     * Returns a webhook handler that answers ConversionReviews.
+     * Failures of single objects are reported with the name and versions of every failed object.
+     */
+    public handler(): WebhookHandler {
+        return async body => {
+            const request = decodeRequest(body);
+            const results = await Promise.all(request.objects.map(object => this.convert(object, request.desiredAPIVersion)
+                .then(converted => ({object, converted}), (error: unknown) => ({object, error}))));
+            const failures = results.filter(r => 'error' in r) as {object: KubernetesObject, error: unknown}[];
+            const review: ConversionReview = {
+                apiVersion: 'apiextensions.k8s.io/v1',
+                kind: 'ConversionReview',
+                response: failures.length === 0
+                    ? {
+                        uid: request.uid,
+                        convertedObjects: results.map(r => (r as {converted: KubernetesObject}).converted),
+                        result: {status: 'Success'},
+                    }
+                    : {
+                        uid: request.uid,
+                        convertedObjects: [],
+                        result: {
+                            status: 'Failure',
+                            message: `Failed to convert ${failures.length} of ${results.length} objects to `
+                                + `${request.desiredAPIVersion}: ${failures.map(describeFailure).join('; ')}`,
+                        },
+                    },
+            };
+            return review;
+        };
+    }
+}
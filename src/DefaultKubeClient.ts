@@ -1,8 +1,11 @@
+import * as http from 'http';
 import {URL} from 'url';
 import {
+    HttpError,
     KubeConfig,
     KubernetesListObject,
     KubernetesObjectApi,
+    ObjectSerializer,
     RequestResult,
     V1DeleteOptions,
     V1Status,
@@ -10,13 +13,61 @@ import {
 } from '@kubernetes/client-node';
 import {has} from '@0cfg/utils-common/lib/has';
 import {KubeClient, KubernetesObject, KubernetesResponse, WatchCallback} from './KubeClient';
+import {clientRequestLatency, clientRequests} from './RuntimeMetrics';
+import {getLogger, Logger} from './Logger';
+import {Patch, patchBody, PatchOptions, PatchType, validatePatch} from './Patch';
+import {isTooManyRequestsError, KubernetesError, toKubernetesError} from './KubernetesError';
+import {TokenBucketRateLimiter} from './RateLimiter';
+import {Backoff, BackoffOptions} from './Backoff';
 
 
+export interface DefaultKubeClientOptions {
+    /**
+     * Requests per second that are sent on average. Defaults to 20.
+     */
+    qps?: number;
+
+    /**
+     * Requests that are sent without delay after a pause. Defaults to 30.
+     */
+    burst?: number;
+
+    /**
+     * Maximum number of retries of a failed request. Defaults to 5.
+     * Requests are retried on 429, and on 500, 503, 504 and connection resets if their verb is idempotent.
+     */
+    maxRetries?: number;
+
+    /**
+     * Backoff between retries. Retry-After headers of the api server take precedence.
+     * Defaults to 200ms doubling up to 10 seconds.
+     */
+    retryBackoff?: BackoffOptions;
+
+    /**
+     * Defaults to the logger returned by getLogger().
+     */
+    logger?: Logger;
+}
+
+/**
+ * Verbs whose requests can be repeated without changing the result.
+ */
+const idempotentVerbs = ['GET', 'PUT', 'DELETE'];
+
+const retriableCodes = [500, 503, 504];
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
 export class DefaultKubeClient implements KubeClient {
     private api: KubernetesObjectApiWrapper;
     private watcher: Watch;
+    private readonly logger: Logger;
+    private readonly rateLimiter: TokenBucketRateLimiter;
 
-    public constructor(kubeConfig: KubeConfig) {
+    public constructor(kubeConfig: KubeConfig, private readonly options: DefaultKubeClientOptions = {}) {
+        this.logger = (options.logger ?? getLogger()).child({component: 'client'});
+        this.rateLimiter = new TokenBucketRateLimiter(options.qps ?? 20, options.burst ?? 30);
         const cluster = kubeConfig.getCurrentCluster();
         if (!has(cluster)) {
             throw new Error('No active cluster defined');
@@ -34,7 +85,7 @@ export class DefaultKubeClient implements KubeClient {
         fieldManager?: string,
         options?: { headers: { [name: string]: string } }
     ): Promise<void> {
-        const res = await this.api.create(spec, pretty, dryRun, fieldManager, options) as KubernetesResponse<T>;
+        const res = await this.request('POST', spec, () => this.api.create(spec, pretty, dryRun, fieldManager, options)) as KubernetesResponse<T>;
         Object.assign(spec, res.body);
     }
 
@@ -48,7 +99,7 @@ export class DefaultKubeClient implements KubeClient {
         body?: V1DeleteOptions,
         options?: { headers: { [name: string]: string } },
     ): Promise<V1Status> {
-        return (await this.api.delete(
+        return (await this.request('DELETE', spec, () => this.api.delete(
             spec,
             pretty,
             dryRun,
@@ -57,7 +108,7 @@ export class DefaultKubeClient implements KubeClient {
             propagationPolicy,
             body,
             options,
-        )).body;
+        ))).body;
     }
 
     public async get<T extends KubernetesObject>(
@@ -67,7 +118,7 @@ export class DefaultKubeClient implements KubeClient {
         exportt?: boolean,
         options?: { headers: { [name: string]: string } }
     ): Promise<void> {
-        const res = await this.api.read(spec, pretty, exact, exportt, options) as KubernetesResponse<T>;
+        const res = await this.request('GET', spec, () => this.api.read(spec, pretty, exact, exportt, options)) as KubernetesResponse<T>;
         Object.assign(spec, res.body);
     }
 
@@ -84,7 +135,7 @@ export class DefaultKubeClient implements KubeClient {
         continueToken?: string,
         options?: { headers: { [name: string]: string } }
     ): Promise<KubernetesListObject<T>> {
-        return (await this.api.list(
+        return (await this.request('GET', {apiVersion, kind, metadata: {namespace}} as KubernetesObject, () => this.api.list(
             apiVersion,
             kind,
             namespace,
@@ -96,7 +147,7 @@ export class DefaultKubeClient implements KubeClient {
             limit,
             continueToken,
             options,
-        )).body as KubernetesListObject<T>;
+        ))).body as KubernetesListObject<T>;
     }
 
     public async update<T extends KubernetesObject>(
@@ -106,7 +157,7 @@ export class DefaultKubeClient implements KubeClient {
         fieldManager?: string,
         options?: { headers: { [name: string]: string } }
     ): Promise<void> {
-        const res = await this.api.replace(spec, pretty, dryRun, fieldManager, options) as KubernetesResponse<T>;
+        const res = await this.request('PUT', spec, () => this.api.replace(spec, pretty, dryRun, fieldManager, options)) as KubernetesResponse<T>;
         Object.assign(spec, res.body);
     }
 
@@ -118,7 +169,48 @@ export class DefaultKubeClient implements KubeClient {
         force?: boolean,
         options?: { headers: { [name: string]: string } },
     ): Promise<void> {
-        const res = await this.api.patch(spec, pretty, dryRun, fieldManager, force, options) as KubernetesResponse<T>;
+        const res = await this.request('PATCH', spec, () => this.api.patch(spec, pretty, dryRun, fieldManager, force, options)) as KubernetesResponse<T>;
+        Object.assign(spec, res.body);
+    }
+
+    public async patchWith<T extends KubernetesObject>(
+        spec: T,
+        patch: Patch,
+        options: PatchOptions = {},
+    ): Promise<void> {
+        validatePatch(patch);
+        const res = await this.request('PATCH', spec, () => this.api.patchWith(spec, patchBody(spec, patch), {
+            pretty: options.pretty,
+            dryRun: options.dryRun,
+            fieldManager: patch.type === PatchType.Apply ? patch.fieldManager : options.fieldManager,
+            force: patch.type === PatchType.Apply ? patch.force : undefined,
+        }, {
+            ...options.headers,
+            'content-type': patch.type,
+        })) as KubernetesResponse<T>;
+        Object.assign(spec, res.body);
+    }
+
+    public async updateStatus<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        options?: { headers: { [name: string]: string } }
+    ): Promise<void> {
+        const res = await this.request('PUT', spec, () => this.api.replaceStatus(spec, pretty, dryRun, fieldManager, options)) as KubernetesResponse<T>;
+        Object.assign(spec, res.body);
+    }
+
+    public async patchStatus<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        force?: boolean,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<void> {
+        const res = await this.request('PATCH', spec, () => this.api.patchStatus(spec, pretty, dryRun, fieldManager, force, options)) as KubernetesResponse<T>;
         Object.assign(spec, res.body);
     }
 
@@ -128,6 +220,7 @@ export class DefaultKubeClient implements KubeClient {
         callback: WatchCallback,
         done: (err: any) => void,
     ): Promise<RequestResult> {
+        await this.rateLimiter.wait();
         return this.watcher.watch(
             path,
             queryParams,
@@ -142,8 +235,73 @@ export class DefaultKubeClient implements KubeClient {
     public async getAPIResourcePath(apiVersion: string, kind: string, namespace?: string): Promise<string> {
         return this.api.getAPIResourcePath(apiVersion, kind, namespace);
     }
+
+    /**
+     * Sends the request within the rate limit and retries it on transient errors.
+     * Errors are wrapped in the KubernetesError of their status with the resource the request relates to.
+     */
+    private async request<R extends { response: http.IncomingMessage }>(
+        verb: string,
+        resource: KubernetesObject,
+        request: () => Promise<R>,
+    ): Promise<R> {
+        const maxRetries = this.options.maxRetries ?? 5;
+        const backoff = new Backoff({initialDelay: 200, maxDelay: 10 * 1000, ...this.options.retryBackoff});
+        for (let attempt = 1; ; attempt++) {
+            await this.rateLimiter.wait();
+            try {
+                return await this.instrument(verb, request);
+            } catch (e) {
+                const error = toKubernetesError(e, resource);
+                if (attempt > maxRetries || !isRetriable(verb, error)) {
+                    throw error;
+                }
+                const retryAfterSeconds = error.status?.details?.retryAfterSeconds;
+                const delay = has(retryAfterSeconds) ? retryAfterSeconds * 1000 : backoff.next();
+                this.logger.debug('Retrying request', {verb, code: error.code, attempt, delay});
+                await sleep(delay);
+            }
+        }
+    }
+
+    /**
+     * Records the count and latency of the request by verb and status code.
+     */
+    private async instrument<R extends { response: http.IncomingMessage }>(verb: string, request: () => Promise<R>): Promise<R> {
+        const observe = clientRequestLatency.startTimer({verb});
+        const startedAt = Date.now();
+        let code = '<error>';
+        try {
+            const res = await request();
+            code = String(res.response.statusCode);
+            return res;
+        } catch (e) {
+            if (e instanceof HttpError && has(e.statusCode)) {
+                code = String(e.statusCode);
+            }
+            throw e;
+        } finally {
+            clientRequests.inc({verb, code});
+            observe({code});
+            this.logger.debug('Request', {verb, code, duration: Date.now() - startedAt});
+        }
+    }
 }
 
+/**
+ * Checks if a failed request can be retried: 429 responses were not processed by the api server,
+ * server errors and connection resets only for idempotent verbs.
+ */
+const isRetriable = (verb: string, error: KubernetesError): boolean => {
+    if (isTooManyRequestsError(error)) {
+        return true;
+    }
+    if (!idempotentVerbs.includes(verb)) {
+        return false;
+    }
+    return retriableCodes.includes(error.code ?? 0) || (error.error as {code?: string})?.code === 'ECONNRESET';
+};
+
 /**
  * Wraps the KubernetesObjectApi to access protected methods.
  */
@@ -153,6 +311,70 @@ class KubernetesObjectApiWrapper extends KubernetesObjectApi {
         return super.setDefaultNamespace(kc);
     }
 
+    /**
+     * Patches a kubernetes resource with the given body and content type.
+     */
+    public async patchWith(
+        spec: KubernetesObject,
+        body: unknown,
+        params: Record<string, string | boolean | undefined>,
+        headers: { [name: string]: string },
+    ): Promise<{ body: KubernetesObject, response: http.IncomingMessage }> {
+        return this.requestPromise({
+            method: 'PATCH',
+            qs: queryParameters(params),
+            headers: this.generateHeaders(headers, 'PATCH'),
+            uri: await this.specUriPath(spec, 'patch'),
+            useQuerystring: this._useQuerystring,
+            json: true,
+            body,
+        });
+    }
+
+    /**
+     * Replaces the status subresource of a kubernetes resource.
+     */
+    public async replaceStatus(
+        spec: KubernetesObject,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        options: { headers: { [name: string]: string } } = {headers: {}},
+    ): Promise<{ body: KubernetesObject, response: http.IncomingMessage }> {
+        return this.requestPromise({
+            method: 'PUT',
+            qs: queryParameters({pretty, dryRun, fieldManager}),
+            headers: this.generateHeaders(options.headers),
+            uri: await this.statusUriPath(spec),
+            useQuerystring: this._useQuerystring,
+            json: true,
+            body: ObjectSerializer.serialize(spec, 'KubernetesObject'),
+        });
+    }
+
+    /**
+     * Patches the status subresource of a kubernetes resource. Defaults to a merge patch, as custom resources
+     * do not support strategic merge patches.
+     */
+    public async patchStatus(
+        spec: KubernetesObject,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        force?: boolean,
+        options: { headers: { [name: string]: string } } = {headers: {}},
+    ): Promise<{ body: KubernetesObject, response: http.IncomingMessage }> {
+        return this.requestPromise({
+            method: 'PATCH',
+            qs: queryParameters({pretty, dryRun, fieldManager, force}),
+            headers: this.generateHeaders({'content-type': 'application/merge-patch+json', ...options.headers}, 'PATCH'),
+            uri: await this.statusUriPath(spec),
+            useQuerystring: this._useQuerystring,
+            json: true,
+            body: ObjectSerializer.serialize(spec, 'object'),
+        });
+    }
+
     /**
      * Returns the api path for a kubernetes resource as it is needed by the watch method.
      */
@@ -166,4 +388,21 @@ class KubernetesObjectApiWrapper extends KubernetesObjectApi {
         }, 'list'));
         return url.pathname;
     }
+
+    private async statusUriPath(spec: KubernetesObject): Promise<string> {
+        return `${await this.specUriPath(spec, 'replace')}/status`;
+    }
 }
+
+/**
+ * Returns the defined query parameters.
+ */
+const queryParameters = (params: Record<string, string | boolean | undefined>): Record<string, string | boolean> => {
+    const qs: Record<string, string | boolean> = {};
+    Object.entries(params).forEach(([key, value]) => {
+        if (has(value)) {
+            qs[key] = value;
+        }
+    });
+    return qs;
+};
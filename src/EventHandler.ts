@@ -0,0 +1,38 @@
+import {has} from '@0cfg/utils-common/lib/has';
+import {KubernetesObject, ObjectKind} from './KubeClient';
+
+/**
+ * Identifies the object of a controller's kind that should be reconciled.
+ */
+export interface ReconcileRequest {
+    namespace?: string,
+    name: string,
+}
+
+/**
+ * Maps the object of a watch event to the objects that should be reconciled.
+ */
+export type MapFunc = (object: KubernetesObject) => ReconcileRequest[];
+
+const apiGroup = (apiVersion: string): string => {
+    const s = apiVersion.split('/');
+    return s.length > 1 ? s[0] : '';
+};
+
+/**
+ * Returns a MapFunc that maps an object to its controlling owner of the given kind.
+ * Owner references are matched by api group and kind, the version is ignored.
+ * The owner is expected in the namespace of the object.
+ */
+export const enqueueRequestForOwner = (owner: ObjectKind<any>): MapFunc => (object: KubernetesObject): ReconcileRequest[] => {
+    const ref = (object.metadata?.ownerReferences ?? []).find(r => r.controller === true
+        && r.kind === owner.kind
+        && apiGroup(r.apiVersion) === apiGroup(owner.apiVersion));
+    if (!has(ref)) {
+        return [];
+    }
+    return [{
+        namespace: object.metadata.namespace,
+        name: ref.name,
+    }];
+};
@@ -0,0 +1,277 @@
+import {hostname} from 'os';
+import {has} from '@0cfg/utils-common/lib/has';
+import {KubeClient, KubernetesObject} from './KubeClient';
+import {isNotFoundError} from './KubernetesError';
+import {getLogger, Logger} from './Logger';
+import {PatchType} from './Patch';
+
+export enum EventType {
+    Normal = 'Normal',
+    Warning = 'Warning',
+}
+
+/**
+ * Records core/v1 Events about objects, e.g. to show them in `kubectl describe`.
+ * Events are written asynchronously, errors are only logged.
+ */
+export interface EventRecorder {
+    event(object: KubernetesObject, type: EventType, reason: string, message: string): void;
+    normal(object: KubernetesObject, reason: string, message: string): void;
+    warning(object: KubernetesObject, reason: string, message: string): void;
+}
+
+export interface EventRecorderOptions {
+    /**
+     * Component that reports the events, e.g. the name of the controller.
+     */
+    component: string;
+
+    /**
+     * Instance that reports the events. Defaults to the hostname.
+     */
+    host?: string;
+
+    /**
+     * Number of events per object that are recorded before the spam filter drops events. Defaults to 25.
+     */
+    spamBurst?: number;
+
+    /**
+     * Interval in milliseconds in which the spam filter allows one more event per object. Defaults to 5 minutes.
+     */
+    spamRefillInterval?: number;
+
+    /**
+     * Number of similar events of an object, i.e. with the same reason but different messages, after which
+     * further similar events are combined into a single event. Defaults to 10.
+     */
+    aggregateThreshold?: number;
+
+    /**
+     * Duration in milliseconds in which similar events are counted for aggregation. Defaults to 10 minutes.
+     */
+    aggregateWindow?: number;
+
+    /**
+     * Defaults to the logger returned by getLogger().
+     */
+    logger?: Logger;
+}
+
+/**
+ * Maximum number of recorded events that are remembered for deduplication.
+ */
+const maxCacheSize = 4096;
+
+interface Event extends KubernetesObject {
+    involvedObject: {
+        apiVersion: string,
+        kind: string,
+        name: string,
+        namespace?: string,
+        uid?: string,
+        resourceVersion?: string,
+    };
+    reason: string;
+    message: string;
+    type: EventType;
+    source: {
+        component: string,
+        host: string,
+    };
+    reportingComponent: string;
+    reportingInstance: string;
+    firstTimestamp: string;
+    lastTimestamp: string;
+    count: number;
+}
+
+/**
+ * Formats a date as Kubernetes Time which has a precision of seconds.
+ */
+const time = (date: Date): string => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * Records events with the KubeClient like the event recorder of client-go:
+ * - Identical events of an object are recorded once and their count and last timestamp are updated.
+ * - Similar events of an object are combined into one event once they exceed the aggregate threshold.
+ * - Events of an object are dropped if they exceed the rate of the spam filter.
+ */
+export class DefaultEventRecorder implements EventRecorder {
+    private readonly host: string;
+    private readonly logger: Logger;
+    private readonly recorded = new Map<string, {name: string, namespace: string, count: number}>();
+    private readonly similar = new Map<string, {messages: Set<string>, since: number}>();
+    private readonly buckets = new Map<string, {tokens: number, updatedAt: number}>();
+    private writes: Promise<void> = Promise.resolve();
+    private sequence = 0;
+
+    public constructor(
+        private readonly client: KubeClient,
+        private readonly options: EventRecorderOptions,
+    ) {
+        this.host = options.host ?? hostname();
+        this.logger = (options.logger ?? getLogger()).child({component: 'event-recorder'});
+    }
+
+    public normal(object: KubernetesObject, reason: string, message: string): void {
+        this.event(object, EventType.Normal, reason, message);
+    }
+
+    public warning(object: KubernetesObject, reason: string, message: string): void {
+        this.event(object, EventType.Warning, reason, message);
+    }
+
+    public event(object: KubernetesObject, type: EventType, reason: string, message: string): void {
+        const objectKey = JSON.stringify([object.apiVersion, object.kind, object.metadata.namespace, object.metadata.name,
+            object.metadata.uid]);
+        if (!this.allow(objectKey)) {
+            return;
+        }
+        const {key, combinedMessage} = this.aggregate(JSON.stringify([objectKey, type, reason]), message);
+        const now = new Date();
+        this.writes = this.writes
+            .then(() => this.record(key, object, type, reason, combinedMessage, now))
+            .catch(e => this.logger.error('Unable to record event', {
+                reason,
+                kind: object.kind,
+                namespace: object.metadata.namespace,
+                name: object.metadata.name,
+                error: e,
+            }));
+    }
+
+    /**
+     * Resolves once all events that were recorded so far are written.
+     */
+    public flush(): Promise<void> {
+        return this.writes;
+    }
+
+    /**
+     * Takes a token from the bucket of the object.
+     * @return false if the bucket is empty and the event has to be dropped.
+     */
+    private allow(objectKey: string): boolean {
+        const burst = this.options.spamBurst ?? 25;
+        const refillInterval = this.options.spamRefillInterval ?? 5 * 60 * 1000;
+        const now = Date.now();
+        const bucket = this.buckets.get(objectKey) ?? {tokens: burst, updatedAt: now};
+        const refilled = Math.floor((now - bucket.updatedAt) / refillInterval);
+        if (refilled > 0) {
+            bucket.tokens = Math.min(burst, bucket.tokens + refilled);
+            bucket.updatedAt += refilled * refillInterval;
+        }
+        if (bucket.tokens === 0) {
+            return false;
+        }
+        bucket.tokens--;
+        this.remember(this.buckets, objectKey, bucket);
+        return true;
+    }
+
+    /**
+     * Returns the key of the event under which identical events are counted.
+     * If too many similar events occurred within the aggregate window, all further similar events
+     * are counted under a single key with a combined message.
+     */
+    private aggregate(similarKey: string, message: string): {key: string, combinedMessage: string} {
+        const threshold = this.options.aggregateThreshold ?? 10;
+        const window = this.options.aggregateWindow ?? 10 * 60 * 1000;
+        const now = Date.now();
+        let similar = this.similar.get(similarKey);
+        if (!has(similar) || now - similar.since > window) {
+            similar = {messages: new Set(), since: now};
+        }
+        similar.messages.add(message);
+        this.remember(this.similar, similarKey, similar);
+        if (similar.messages.size > threshold) {
+            return {key: JSON.stringify([similarKey]), combinedMessage: `(combined from similar events): ${message}`};
+        }
+        return {key: JSON.stringify([similarKey, message]), combinedMessage: message};
+    }
+
+    /**
+     * Updates the count of a previously recorded identical event or creates a new event.
+     */
+    private async record(
+        key: string,
+        object: KubernetesObject,
+        type: EventType,
+        reason: string,
+        message: string,
+        now: Date,
+    ): Promise<void> {
+        const previous = this.recorded.get(key);
+        if (has(previous)) {
+            const event: KubernetesObject = {
+                apiVersion: 'v1',
+                kind: 'Event',
+                metadata: {name: previous.name, namespace: previous.namespace},
+            };
+            try {
+                await this.client.patchWith(event, {
+                    type: PatchType.MergePatch,
+                    patch: {count: previous.count + 1, lastTimestamp: time(now), message},
+                });
+                this.remember(this.recorded, key, {...previous, count: previous.count + 1});
+                return;
+            } catch (e) {
+                if (!isNotFoundError(e)) {
+                    throw e;
+                }
+                // The event expired in the meantime.
+            }
+        }
+        const event: Event = {
+            apiVersion: 'v1',
+            kind: 'Event',
+            metadata: {
+                name: this.eventName(object, now),
+                namespace: object.metadata.namespace ?? 'default',
+            },
+            involvedObject: {
+                apiVersion: object.apiVersion,
+                kind: object.kind,
+                name: object.metadata.name,
+                namespace: object.metadata.namespace,
+                uid: object.metadata.uid,
+                resourceVersion: object.metadata.resourceVersion,
+            },
+            reason,
+            message,
+            type,
+            source: {
+                component: this.options.component,
+                host: this.host,
+            },
+            reportingComponent: this.options.component,
+            reportingInstance: this.host,
+            firstTimestamp: time(now),
+            lastTimestamp: time(now),
+            count: 1,
+        };
+        await this.client.create(event);
+        this.remember(this.recorded, key, {name: event.metadata.name, namespace: event.metadata.namespace!, count: 1});
+    }
+
+    /**
+     * Returns a unique name of the form <object name>.<hex timestamp>.
+     */
+    private eventName(object: KubernetesObject, now: Date): string {
+        // Events recorded within the same millisecond are distinguished by a sequence number.
+        const sequence = (this.sequence++ % 0x1000).toString(16).padStart(3, '0');
+        return `${object.metadata.name}.${now.getTime().toString(16)}${sequence}`;
+    }
+
+    /**
+     * Stores the value as most recently used entry and evicts the least recently used entries above the cache size.
+     */
+    private remember<V>(map: Map<string, V>, key: string, value: V): void {
+        map.delete(key);
+        map.set(key, value);
+        if (map.size > maxCacheSize) {
+            map.delete(map.keys().next().value);
+        }
+    }
+}
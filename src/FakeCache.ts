@@ -0,0 +1,107 @@
+import {KubernetesListObject, RequestResult} from '@kubernetes/client-node';
+import {has} from '@0cfg/utils-common/lib/has';
+import {onAbort} from './Abort';
+import {Cache, CacheScope} from './Cache';
+import {FakeKubeClient} from './FakeKubeClient';
+import {IndexFunc} from './Indexer';
+import {KubernetesObject, ObjectKind, WatchCallback} from './KubeClient';
+import {groupVersionKindKey} from './ObjectUtils';
+
+/**
+ * A Cache for unit tests that reads directly from a FakeKubeClient, so reads are consistent with
+ * preceding writes. Listeners receive the watch events of the client.
+ * The scope of a kind only restricts the events of its listeners, reads are not restricted.
+ */
+export class FakeCache implements Cache {
+    private readonly listeners: {object: ObjectKind<any>, cb: WatchCallback, scope?: CacheScope}[] = [];
+    private readonly indexes: {[gvk: string]: {[name: string]: IndexFunc}} = {};
+    private readonly requests: RequestResult[] = [];
+    private started = false;
+    private signal?: AbortSignal;
+
+    public constructor(private readonly client: FakeKubeClient) {
+    }
+
+    public start(signal?: AbortSignal): void {
+        if (this.started) {
+            throw new Error('Cache already started');
+        }
+        this.started = true;
+        this.signal = signal;
+        if (has(signal)) {
+            onAbort(signal, () => this.requests.splice(0).forEach(r => r.abort()));
+        }
+        this.listeners.forEach(l => this.watch(l.object, l.cb, l.scope));
+    }
+
+    public addListener(object: ObjectKind<any>, cb: WatchCallback, scope?: CacheScope): void {
+        this.listeners.push({object, cb, scope});
+        if (this.started && this.signal?.aborted !== true) {
+            this.watch(object, cb, scope);
+        }
+    }
+
+    public async get<T extends KubernetesObject>(spec: T): Promise<void> {
+        await this.client.get(spec);
+    }
+
+    public async list<T extends KubernetesObject>(
+        apiVersion: string,
+        kind: string,
+        namespace?: string,
+        pretty?: string,
+        exact?: boolean,
+        exportt?: boolean,
+        fieldSelector?: string,
+        labelSelector?: string,
+    ): Promise<KubernetesListObject<T>> {
+        return this.client.list(apiVersion, kind, namespace, pretty, exact, exportt, fieldSelector, labelSelector);
+    }
+
+    /**
+     * Resolves immediately as reads are always served from the client.
+     */
+    public async waitForSync(): Promise<void> {
+        return;
+    }
+
+    public hasSynced(object: ObjectKind<any>): boolean {
+        return this.started && this.listeners.some(l => groupVersionKindKey(l.object) === groupVersionKindKey(object));
+    }
+
+    public addIndex(object: ObjectKind<any>, name: string, indexFunc: IndexFunc): void {
+        const gvk = groupVersionKindKey(object);
+        this.indexes[gvk] = {...this.indexes[gvk], [name]: indexFunc};
+    }
+
+    /**
+     * @throws {Error} if the index does not exist.
+     */
+    public byIndex<T extends KubernetesObject>(object: ObjectKind<T>, name: string, value: string): T[] {
+        const indexFunc = this.indexes[groupVersionKindKey(object)]?.[name];
+        if (!has(indexFunc)) {
+            throw new Error(`Index ${name} does not exist for ${groupVersionKindKey(object)}`);
+        }
+        return this.client.listObjects(object).filter(o => indexFunc(o).includes(value));
+    }
+
+    private async watch(object: ObjectKind<any>, cb: WatchCallback, scope: CacheScope = {}): Promise<void> {
+        const namespaces = scope.namespaces ?? [undefined];
+        const paths = new Set<string>();
+        for (const namespace of namespaces) {
+            // Cluster scoped kinds have the same path for all namespaces.
+            paths.add(await this.client.getAPIResourcePath(object.apiVersion, object.kind, namespace));
+        }
+        for (const path of paths) {
+            const request = await this.client.watch(path, {
+                labelSelector: scope.labelSelector,
+                fieldSelector: scope.fieldSelector,
+            }, cb, () => undefined);
+            if (this.signal?.aborted === true) {
+                request.abort();
+                return;
+            }
+            this.requests.push(request);
+        }
+    }
+}
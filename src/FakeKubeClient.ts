@@ -0,0 +1,489 @@
+import * as http from 'http';
+import {HttpError, KubernetesListObject, RequestResult, V1DeleteOptions, V1Status} from '@kubernetes/client-node';
+import {has} from '@0cfg/utils-common/lib/has';
+import {
+    KubeClient,
+    KubernetesEventType,
+    KubernetesObject,
+    ObjectKind,
+    WatchCallback,
+    WatchObject,
+} from './KubeClient';
+import {KubernetesError, toKubernetesError} from './KubernetesError';
+import {deepCopy, deepEqual, groupVersionKindKey, namespacedName} from './ObjectUtils';
+import {applyJsonPatch, applyMergePatch, JsonPatchError, Patch, PatchOptions, PatchType, validatePatch} from './Patch';
+import {parseFieldSelector, parseLabelSelector} from './Selector';
+
+/**
+ * Kinds of the core api that are not namespaced.
+ */
+const defaultClusterScopedKinds: ObjectKind<any>[] = [
+    {apiVersion: 'v1', kind: 'Namespace'},
+    {apiVersion: 'v1', kind: 'Node'},
+    {apiVersion: 'v1', kind: 'PersistentVolume'},
+    {apiVersion: 'rbac.authorization.k8s.io/v1', kind: 'ClusterRole'},
+    {apiVersion: 'rbac.authorization.k8s.io/v1', kind: 'ClusterRoleBinding'},
+    {apiVersion: 'apiextensions.k8s.io/v1', kind: 'CustomResourceDefinition'},
+    {apiVersion: 'storage.k8s.io/v1', kind: 'StorageClass'},
+    {apiVersion: 'scheduling.k8s.io/v1', kind: 'PriorityClass'},
+    {apiVersion: 'admissionregistration.k8s.io/v1', kind: 'MutatingWebhookConfiguration'},
+    {apiVersion: 'admissionregistration.k8s.io/v1', kind: 'ValidatingWebhookConfiguration'},
+];
+
+export interface FakeKubeClientOptions {
+    /**
+     * Objects the client is initialized with.
+     */
+    objects?: KubernetesObject[];
+
+    /**
+     * Additional kinds that are not namespaced, e.g. cluster scoped custom resources.
+     */
+    clusterScopedKinds?: ObjectKind<any>[];
+
+    /**
+     * Kinds with an enabled status subresource. Updates of these kinds ignore the status
+     * and their status can only be written with updateStatus and patchStatus.
+     */
+    statusSubresourceKinds?: ObjectKind<any>[];
+}
+
+type WithStatus = KubernetesObject & {status?: unknown};
+
+interface FakeWatcher {
+    apiVersion: string;
+    kind: string;
+    namespace?: string;
+    matches: (object: KubernetesObject) => boolean;
+    callback: WatchCallback;
+    done: (err: any) => void;
+}
+
+interface FakeEvent {
+    resourceVersion: number;
+    type: KubernetesEventType;
+    object: KubernetesObject;
+    oldObject?: KubernetesObject;
+}
+
+/**
+ * Returns an error of the api server wrapped like the errors of the DefaultKubeClient.
+ */
+const statusError = (code: number, reason: string, message: string, object?: KubernetesObject): KubernetesError => {
+    const body: V1Status = {
+        apiVersion: 'v1',
+        kind: 'Status',
+        metadata: {},
+        status: 'Failure',
+        message,
+        reason,
+        details: has(object) ? {name: object.metadata.name, kind: object.kind} : undefined,
+        code,
+    };
+    return toKubernetesError(new HttpError({statusCode: code} as http.IncomingMessage, body, code), object);
+};
+
+const notFound = (object: KubernetesObject): KubernetesError =>
+    statusError(404, 'NotFound', `${object.kind} "${object.metadata.name}" not found`, object);
+
+const conflict = (object: KubernetesObject): KubernetesError => statusError(409, 'Conflict',
+    `Operation cannot be fulfilled on ${object.kind} "${object.metadata.name}": `
+    + 'the object has been modified; please apply your changes to the latest version and try again', object);
+
+/**
+ * An in-memory KubeClient for unit tests of controllers.
+ * Objects are stored per kind and namespace, every write assigns a new resource version and
+ * writes with a stale resource version fail with a conflict. Errors are wrapped like the errors of the DefaultKubeClient.
+ * Watches receive the events of all writes, so a DefaultCache or a FakeCache can run on top of this client.
+ * Like the cache, the client passes the previous state of the object for MODIFIED events.
+ *
+ * Differences to a real api server:
+ * - strategic merge patches and apply patches are applied as merge patches without tracking field managers.
+ * - dry runs, garbage collection of owned objects and admission are not supported.
+ */
+export class FakeKubeClient implements KubeClient {
+    private readonly objects: {[gvk: string]: Map<string, KubernetesObject>} = {};
+    private readonly watchers = new Set<FakeWatcher>();
+    private readonly events: FakeEvent[] = [];
+    private readonly clusterScopedKinds: Set<string>;
+    private readonly statusSubresourceKinds: Set<string>;
+    private resourceVersion = 0;
+    private uid = 0;
+
+    public constructor(options: FakeKubeClientOptions = {}) {
+        this.clusterScopedKinds = new Set([...defaultClusterScopedKinds, ...(options.clusterScopedKinds ?? [])]
+            .map(groupVersionKindKey));
+        this.statusSubresourceKinds = new Set((options.statusSubresourceKinds ?? []).map(groupVersionKindKey));
+        (options.objects ?? []).forEach(o => this.insert(deepCopy(o)));
+    }
+
+    public async create<T extends KubernetesObject>(spec: T): Promise<void> {
+        Object.assign(spec, deepCopy(this.insert(deepCopy(spec))));
+    }
+
+    public async get<T extends KubernetesObject>(spec: T): Promise<void> {
+        Object.assign(spec, deepCopy(this.existing(spec)));
+    }
+
+    /**
+     * Lists the objects of a kind ordered by namespace and name.
+     * The continue token is the key of the last object of the previous page.
+     */
+    public async list<T extends KubernetesObject>(
+        apiVersion: string,
+        kind: string,
+        namespace?: string,
+        pretty?: string,
+        exact?: boolean,
+        exportt?: boolean,
+        fieldSelector?: string,
+        labelSelector?: string,
+        limit?: number,
+        continueToken?: string,
+    ): Promise<KubernetesListObject<T>> {
+        const matchesLabels = parseLabelSelector(labelSelector ?? '');
+        const matchesFields = parseFieldSelector(fieldSelector ?? '');
+        let items = this.listObjects<T>({apiVersion, kind}, namespace)
+            .filter(o => matchesLabels(o.metadata.labels) && matchesFields(o));
+        if (has(continueToken)) {
+            items = items.filter(o => namespacedName(o).localeCompare(continueToken) > 0);
+        }
+        const more = has(limit) && limit > 0 && items.length > limit;
+        if (more) {
+            items = items.slice(0, limit);
+        }
+        return {
+            apiVersion,
+            kind: `${kind}List`,
+            metadata: {
+                resourceVersion: String(this.resourceVersion),
+                _continue: more ? namespacedName(items[items.length - 1]) : undefined,
+            },
+            items,
+        };
+    }
+
+    /**
+     * Replaces the object. The status is kept for kinds with a status subresource.
+     */
+    public async update<T extends KubernetesObject>(spec: T): Promise<void> {
+        const current = this.existing(spec);
+        const updated = deepCopy(spec) as KubernetesObject;
+        if (this.hasStatusSubresource(spec)) {
+            (updated as WithStatus).status = deepCopy((current as WithStatus).status);
+        }
+        Object.assign(spec, deepCopy(this.replace(current, updated)));
+    }
+
+    /**
+     * Applies the spec as merge patch.
+     */
+    public async patch<T extends KubernetesObject>(spec: T): Promise<void> {
+        await this.patchWith(spec, {type: PatchType.MergePatch, patch: spec as Record<string, any>});
+    }
+
+    public async patchWith<T extends KubernetesObject>(spec: T, patch: Patch, options: PatchOptions = {}): Promise<void> {
+        validatePatch(patch);
+        if (patch.type === PatchType.Apply && !this.has(spec)) {
+            await this.create(spec);
+            return;
+        }
+        const current = this.existing(spec);
+        const updated = this.applyPatch(current, spec, patch);
+        if (this.hasStatusSubresource(spec)) {
+            (updated as WithStatus).status = deepCopy((current as WithStatus).status);
+        }
+        Object.assign(spec, deepCopy(this.replace(current, updated)));
+    }
+
+    /**
+     * Replaces the status of the object.
+     * @throws {NotFound} if the kind has no status subresource.
+     */
+    public async updateStatus<T extends KubernetesObject>(spec: T): Promise<void> {
+        const current = this.existingStatus(spec);
+        const updated = {...deepCopy(current), status: deepCopy((spec as WithStatus).status)};
+        if (has(spec.metadata.resourceVersion)) {
+            updated.metadata.resourceVersion = spec.metadata.resourceVersion;
+        }
+        Object.assign(spec, deepCopy(this.replace(current, updated)));
+    }
+
+    /**
+     * Applies the status of the spec as merge patch.
+     * @throws {NotFound} if the kind has no status subresource.
+     */
+    public async patchStatus<T extends KubernetesObject>(spec: T): Promise<void> {
+        const current = this.existingStatus(spec);
+        const patched = applyMergePatch(current, {
+            metadata: {resourceVersion: spec.metadata.resourceVersion},
+            status: (spec as WithStatus).status,
+        }) as KubernetesObject;
+        const updated = {...deepCopy(current), metadata: patched.metadata, status: (patched as WithStatus).status};
+        Object.assign(spec, deepCopy(this.replace(current, updated)));
+    }
+
+    /**
+     * Deletes the object. Objects with finalizers are marked with a deletion timestamp instead
+     * and are deleted once their last finalizer is removed.
+     */
+    public async delete<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        gracePeriodSeconds?: number,
+        orphanDependents?: boolean,
+        propagationPolicy?: string,
+        body?: V1DeleteOptions,
+    ): Promise<V1Status> {
+        const current = this.existing(spec);
+        const precondition = body?.preconditions?.resourceVersion;
+        if (has(precondition) && precondition !== current.metadata.resourceVersion) {
+            throw conflict(current);
+        }
+        if ((current.metadata.finalizers ?? []).length === 0) {
+            this.remove(current);
+        } else if (!has(current.metadata.deletionTimestamp)) {
+            const updated = deepCopy(current);
+            updated.metadata.deletionTimestamp = new Date();
+            this.replace(current, updated);
+        }
+        return {apiVersion: 'v1', kind: 'Status', metadata: {}, status: 'Success'};
+    }
+
+    /**
+     * Delivers the events of the kind that is encoded in the path asynchronously to the callback.
+     * Without resource version all existing objects are delivered as ADDED first, otherwise
+     * all events since the resource version are delivered.
+     * The watch is never closed by the client itself, aborting it calls done without error.
+     */
+    public async watch(
+        path: string,
+        queryParams: Record<string, any>,
+        callback: WatchCallback,
+        done: (err: any) => void,
+    ): Promise<RequestResult> {
+        const {apiVersion, kind, namespace} = parseResourcePath(path);
+        const matchesLabels = parseLabelSelector(queryParams.labelSelector ?? '');
+        const matchesFields = parseFieldSelector(queryParams.fieldSelector ?? '');
+        const watcher: FakeWatcher = {
+            apiVersion,
+            kind,
+            namespace,
+            matches: (o: KubernetesObject) => matchesLabels(o.metadata.labels) && matchesFields(o),
+            callback,
+            done,
+        };
+        const resourceVersion = queryParams.resourceVersion;
+        const initial: FakeEvent[] = has(resourceVersion) && resourceVersion !== ''
+            ? this.events.filter(e => e.resourceVersion > Number(resourceVersion))
+            : this.listObjects({apiVersion, kind}, namespace)
+                .map(object => ({resourceVersion: this.resourceVersion, type: KubernetesEventType.ADDED, object}));
+        this.watchers.add(watcher);
+        initial.forEach(e => this.notify(watcher, e));
+        return {
+            abort: () => {
+                if (this.watchers.delete(watcher)) {
+                    setImmediate(() => done(null));
+                }
+            },
+            pipe: () => undefined,
+            on: () => undefined,
+        };
+    }
+
+    /**
+     * Returns a path of the form /apis/<group>/<version>/namespaces/<namespace>/<kind>.
+     * Unlike the api server the path contains the kind instead of the resource name.
+     */
+    public async getAPIResourcePath(apiVersion: string, kind: string, namespace?: string): Promise<string> {
+        const prefix = apiVersion.includes('/') ? `/apis/${apiVersion}` : `/api/${apiVersion}`;
+        if (has(namespace) && !this.clusterScopedKinds.has(groupVersionKindKey({apiVersion, kind}))) {
+            return `${prefix}/namespaces/${namespace}/${kind}`;
+        }
+        return `${prefix}/${kind}`;
+    }
+
+    /**
+     * Returns copies of the stored objects of the kind ordered by namespace and name.
+     * Intended for assertions in tests.
+     */
+    public listObjects<T extends KubernetesObject>(object: ObjectKind<T>, namespace?: string): T[] {
+        return [...(this.objects[groupVersionKindKey(object)]?.values() ?? [])]
+            .filter(o => !has(namespace) || o.metadata.namespace === namespace)
+            .sort((a, b) => namespacedName(a).localeCompare(namespacedName(b)))
+            .map(o => deepCopy(o) as T);
+    }
+
+    /**
+     * Closes all open watches with the error, e.g. to test reconnects.
+     */
+    public closeWatches(err: any = null): void {
+        const watchers = [...this.watchers];
+        this.watchers.clear();
+        watchers.forEach(w => setImmediate(() => w.done(err)));
+    }
+
+    private has(spec: KubernetesObject): boolean {
+        return this.objects[groupVersionKindKey(spec)]?.has(this.key(spec)) === true;
+    }
+
+    private existing(spec: KubernetesObject): KubernetesObject {
+        const object = this.objects[groupVersionKindKey(spec)]?.get(this.key(spec));
+        if (!has(object)) {
+            throw notFound(spec);
+        }
+        return object;
+    }
+
+    private existingStatus(spec: KubernetesObject): KubernetesObject {
+        if (!this.hasStatusSubresource(spec)) {
+            throw statusError(404, 'NotFound', `${spec.kind} has no status subresource`, spec);
+        }
+        return this.existing(spec);
+    }
+
+    private hasStatusSubresource(object: ObjectKind<any>): boolean {
+        return this.statusSubresourceKinds.has(groupVersionKindKey(object));
+    }
+
+    private isClusterScoped(object: ObjectKind<any>): boolean {
+        return this.clusterScopedKinds.has(groupVersionKindKey(object));
+    }
+
+    private key(object: KubernetesObject): string {
+        if (this.isClusterScoped(object)) {
+            return `/${object.metadata.name}`;
+        }
+        return `${object.metadata.namespace ?? 'default'}/${object.metadata.name}`;
+    }
+
+    private applyPatch(current: KubernetesObject, spec: KubernetesObject, patch: Patch): KubernetesObject {
+        switch (patch.type) {
+            case PatchType.JsonPatch:
+                try {
+                    return applyJsonPatch(current, patch.operations) as KubernetesObject;
+                } catch (e) {
+                    if (e instanceof JsonPatchError) {
+                        throw statusError(422, 'Invalid', e.message, current);
+                    }
+                    throw e;
+                }
+            case PatchType.MergePatch:
+            case PatchType.StrategicMergePatch:
+                return applyMergePatch(current, patch.patch) as KubernetesObject;
+            case PatchType.Apply:
+                return applyMergePatch(current, spec) as KubernetesObject;
+        }
+    }
+
+    /**
+     * Stores a new object.
+     * @throws {AlreadyExists} if an object with the same name exists.
+     */
+    private insert(object: KubernetesObject): KubernetesObject {
+        if (!has(object.metadata.name) || object.metadata.name === '') {
+            if (!has(object.metadata.generateName)) {
+                throw statusError(422, 'Invalid', `${object.kind} name or generateName is required`, object);
+            }
+            object.metadata.name = `${object.metadata.generateName}${(++this.uid).toString(36).padStart(5, '0')}`;
+        }
+        if (this.has(object)) {
+            throw statusError(409, 'AlreadyExists', `${object.kind} "${object.metadata.name}" already exists`, object);
+        }
+        if (this.isClusterScoped(object)) {
+            delete object.metadata.namespace;
+        } else {
+            object.metadata.namespace = object.metadata.namespace ?? 'default';
+        }
+        object.metadata.uid = `fake-uid-${++this.uid}`;
+        object.metadata.generation = 1;
+        object.metadata.creationTimestamp = new Date();
+        delete object.metadata.deletionTimestamp;
+        return this.write(KubernetesEventType.ADDED, object);
+    }
+
+    /**
+     * Replaces a stored object.
+     * @throws {Conflict} if the resource version of the updated object is stale.
+     */
+    private replace(current: KubernetesObject, updated: KubernetesObject): KubernetesObject {
+        const resourceVersion = updated.metadata.resourceVersion;
+        if (has(resourceVersion) && resourceVersion !== '' && resourceVersion !== current.metadata.resourceVersion) {
+            throw conflict(current);
+        }
+        updated.apiVersion = current.apiVersion;
+        updated.kind = current.kind;
+        updated.metadata = {
+            ...updated.metadata,
+            name: current.metadata.name,
+            namespace: current.metadata.namespace,
+            uid: current.metadata.uid,
+            creationTimestamp: current.metadata.creationTimestamp,
+            deletionTimestamp: current.metadata.deletionTimestamp ?? updated.metadata.deletionTimestamp,
+            generation: current.metadata.generation,
+        };
+        const {metadata: currentMetadata, status: currentStatus, ...currentSpec} = current as WithStatus;
+        const {metadata: updatedMetadata, status: updatedStatus, ...updatedSpec} = updated as WithStatus;
+        if (!deepEqual(currentSpec, updatedSpec)) {
+            updated.metadata.generation = (current.metadata.generation ?? 0) + 1;
+        }
+        if (has(updated.metadata.deletionTimestamp) && (updated.metadata.finalizers ?? []).length === 0) {
+            return this.remove(updated);
+        }
+        return this.write(KubernetesEventType.MODIFIED, updated, current);
+    }
+
+    private remove(object: KubernetesObject): KubernetesObject {
+        this.objects[groupVersionKindKey(object)].delete(this.key(object));
+        object.metadata.resourceVersion = String(++this.resourceVersion);
+        this.record(KubernetesEventType.DELETED, object);
+        return object;
+    }
+
+    private write(type: KubernetesEventType, object: KubernetesObject, oldObject?: KubernetesObject): KubernetesObject {
+        object.metadata.resourceVersion = String(++this.resourceVersion);
+        const gvk = groupVersionKindKey(object);
+        if (!has(this.objects[gvk])) {
+            this.objects[gvk] = new Map();
+        }
+        this.objects[gvk].set(this.key(object), object);
+        this.record(type, object, oldObject);
+        return object;
+    }
+
+    private record(type: KubernetesEventType, object: KubernetesObject, oldObject?: KubernetesObject): void {
+        const event = {resourceVersion: this.resourceVersion, type, object: deepCopy(object), oldObject: deepCopy(oldObject)};
+        this.events.push(event);
+        this.watchers.forEach(w => this.notify(w, event));
+    }
+
+    private notify(watcher: FakeWatcher, event: FakeEvent): void {
+        const {object} = event;
+        if (groupVersionKindKey(object) !== groupVersionKindKey(watcher)
+            || (has(watcher.namespace) && object.metadata.namespace !== watcher.namespace)
+            || !watcher.matches(object)) {
+            return;
+        }
+        setImmediate(() => {
+            if (this.watchers.has(watcher)) {
+                const copy = deepCopy(object);
+                watcher.callback(event.type, copy, {type: event.type, object: copy} as WatchObject, deepCopy(event.oldObject));
+            }
+        });
+    }
+}
+
+/**
+ * Parses a path created by FakeKubeClient.getAPIResourcePath.
+ */
+const parseResourcePath = (path: string): {apiVersion: string, kind: string, namespace?: string} => {
+    const segments = path.split('/').filter(s => s !== '');
+    const versionSegments = segments[0] === 'apis' ? 2 : 1;
+    const apiVersion = segments.slice(1, 1 + versionSegments).join('/');
+    const rest = segments.slice(1 + versionSegments);
+    if (rest[0] === 'namespaces' && rest.length === 3) {
+        return {apiVersion, kind: rest[2], namespace: rest[1]};
+    }
+    return {apiVersion, kind: rest[0]};
+};
@@ -0,0 +1,59 @@
+import {KubeClient, KubernetesObject} from './KubeClient';
+import {PatchType} from './Patch';
+
+/**
+ * Checks if the finalizer is set on the object.
+ */
+export const containsFinalizer = (object: KubernetesObject, finalizer: string): boolean =>
+    (object.metadata.finalizers ?? []).includes(finalizer);
+
+/**
+ * Adds the finalizer to the object in-place.
+ * @return true if the finalizers of the object changed.
+ */
+export const addFinalizer = (object: KubernetesObject, finalizer: string): boolean => {
+    if (containsFinalizer(object, finalizer)) {
+        return false;
+    }
+    object.metadata.finalizers = [...(object.metadata.finalizers ?? []), finalizer];
+    return true;
+};
+
+/**
+ * Removes the finalizer from the object in-place.
+ * @return true if the finalizers of the object changed.
+ */
+export const removeFinalizer = (object: KubernetesObject, finalizer: string): boolean => {
+    if (!containsFinalizer(object, finalizer)) {
+        return false;
+    }
+    object.metadata.finalizers = object.metadata.finalizers!.filter(f => f !== finalizer);
+    return true;
+};
+
+/**
+ * Writes the finalizers of the object with a merge patch and updates the object in-place with the result.
+ * The patch contains the resource version of the object, so it fails with a conflict if the object was modified
+ * since it was read instead of overwriting finalizers of others.
+ * @throws {KubernetesError}
+ */
+export const patchFinalizers = async (client: KubeClient, object: KubernetesObject): Promise<void> => {
+    const target: KubernetesObject = {
+        apiVersion: object.apiVersion,
+        kind: object.kind,
+        metadata: {
+            name: object.metadata.name,
+            namespace: object.metadata.namespace,
+        },
+    };
+    await client.patchWith(target, {
+        type: PatchType.MergePatch,
+        patch: {
+            metadata: {
+                resourceVersion: object.metadata.resourceVersion,
+                finalizers: object.metadata.finalizers ?? [],
+            },
+        },
+    });
+    Object.assign(object, target);
+};
@@ -0,0 +1,36 @@
+import {KubernetesObject} from '@kubernetes/client-node';
+import {Controller, IController, ReconcileContext} from './Controller';
+import {ObjectKind} from './KubeClient';
+
+export interface IFinalizingController<T extends KubernetesObject> extends IController<T> {
+    finalizer(): string;
+    finalize(object: T, context: ReconcileContext): Promise<void>;
+}
+
+export const isFinalizingController = (controller: IController<any>): controller is IFinalizingController<any> =>
+    typeof (controller as IFinalizingController<any>).finalizer === 'function'
+    && typeof (controller as IFinalizingController<any>).finalize === 'function';
+
+/**
+ * Controller that cleans up before its objects are deleted.
+ * The manager adds the finalizer to every object before it is reconciled. Once an object is marked for deletion
+ * finalize is called instead of reconcile until it succeeds, afterwards the finalizer is removed.
+ */
+export abstract class FinalizingController<T extends KubernetesObject> extends Controller<T> implements IFinalizingController<T> {
+    constructor(
+        object: ObjectKind<T>,
+        private readonly finalizerName: string,
+    ) {
+        super(object);
+    }
+
+    public finalizer(): string {
+        return this.finalizerName;
+    }
+
+    /**
+     * Called by the manager for objects that are marked for deletion and still have the finalizer.
+     * Throwing an error retries the finalization with an exponential backoff.
+     */
+    public abstract finalize(object: T, context: ReconcileContext): Promise<void>;
+}
@@ -0,0 +1,81 @@
+import * as http from 'http';
+import {URL} from 'url';
+import {has} from '@0cfg/utils-common/lib/has';
+
+/**
+ * A named health check. The check fails if it throws or rejects.
+ */
+export type HealthCheck = () => void | Promise<void>;
+
+/**
+ * Always passes. Used as liveness check of a running process.
+ */
+export const ping: HealthCheck = () => undefined;
+
+/**
+ * Serves a set of named checks under a path, e.g. /readyz, like the api server does:
+ * - <path> responds with 200 if all checks pass and with 500 otherwise.
+ * - <path>?verbose lists the result of every check.
+ * - <path>?exclude=<name> skips the check, the parameter can be repeated.
+ * - <path>/<name> runs a single check.
+ */
+export class HealthChecks {
+    private readonly checks = new Map<string, HealthCheck>();
+
+    public constructor(private readonly path: string) {
+    }
+
+    /**
+     * @throws {Error} if a check with the name is already registered.
+     */
+    public add(name: string, check: HealthCheck): void {
+        if (name === '' || name.includes('/')) {
+            throw new Error(`Invalid health check name "${name}"`);
+        }
+        if (this.checks.has(name)) {
+            throw new Error(`Health check ${name} is already registered at ${this.path}`);
+        }
+        this.checks.set(name, check);
+    }
+
+    /**
+     * Handles the request if its path belongs to these checks.
+     * @return false if the request was not handled.
+     */
+    public async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<boolean> {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (url.pathname === this.path) {
+            const excluded = url.searchParams.getAll('exclude');
+            await this.respond(res, [...this.checks.entries()].filter(([name]) => !excluded.includes(name)),
+                url.searchParams.has('verbose'));
+            return true;
+        }
+        const check = this.checks.get(url.pathname.substring(this.path.length + 1));
+        if (url.pathname.startsWith(`${this.path}/`) && has(check)) {
+            await this.respond(res, [[url.pathname.substring(this.path.length + 1), check]], url.searchParams.has('verbose'));
+            return true;
+        }
+        return false;
+    }
+
+    private async respond(res: http.ServerResponse, checks: [string, HealthCheck][], verbose: boolean): Promise<void> {
+        const results = await Promise.all(checks.map(async ([name, check]) => {
+            try {
+                await check();
+                return {name, error: undefined};
+            } catch (e) {
+                return {name, error: (e instanceof Error) ? e.message : JSON.stringify(e)};
+            }
+        }));
+        const failed = results.filter(r => has(r.error));
+        const check = this.path.substring(1);
+        if (failed.length === 0 && !verbose) {
+            res.writeHead(200, {'Content-Type': 'text/plain; charset=utf-8'}).end('ok');
+            return;
+        }
+        const lines = results.map(r => has(r.error) ? `[-]${r.name} failed: ${r.error}` : `[+]${r.name} ok`);
+        lines.push(failed.length === 0 ? `${check} check passed` : `${check} check failed`);
+        res.writeHead(failed.length === 0 ? 200 : 500, {'Content-Type': 'text/plain; charset=utf-8'})
+            .end(`${lines.join('\n')}\n`);
+    }
+}
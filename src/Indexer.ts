@@ -0,0 +1,86 @@
+import {KubernetesObject} from './KubeClient';
+import {fieldValue} from './Selector';
+
+/**
+ * Returns the values under which an object is indexed.
+ */
+export type IndexFunc = (object: KubernetesObject) => string[];
+
+/**
+ * Indexes objects by the value of a dot separated field path, e.g. "spec.nodeName".
+ */
+export const fieldIndexFunc = (path: string): IndexFunc => (object: KubernetesObject) => [fieldValue(object, path)];
+
+/**
+ * Indexes objects by the uids of their owners.
+ */
+export const ownerUidIndexFunc: IndexFunc = (object: KubernetesObject) => (object.metadata.ownerReferences ?? []).map(r => r.uid);
+
+/**
+ * Maintains named indexes of object keys for objects of one kind.
+ */
+export class Indexer {
+    private readonly indices: {
+        [name: string]: {
+            indexFunc: IndexFunc,
+            keys: Map<string, Set<string>>,
+        },
+    } = {};
+
+    /**
+     * Adds an index and indexes the given existing objects.
+     * @throws {Error} if an index with the same name already exists.
+     */
+    public addIndex(name: string, indexFunc: IndexFunc, objects: {[key: string]: KubernetesObject}): void {
+        if (name in this.indices) {
+            throw new Error(`Index ${name} already exists`);
+        }
+        this.indices[name] = {indexFunc, keys: new Map()};
+        Object.entries(objects).forEach(([key, object]) => this.addToIndex(name, key, object));
+    }
+
+    public hasIndex(name: string): boolean {
+        return name in this.indices;
+    }
+
+    /**
+     * Indexes the object stored under the key.
+     */
+    public add(key: string, object: KubernetesObject): void {
+        Object.keys(this.indices).forEach(name => this.addToIndex(name, key, object));
+    }
+
+    /**
+     * Removes the previously indexed state of the object stored under the key.
+     */
+    public delete(key: string, object: KubernetesObject): void {
+        Object.values(this.indices).forEach(({indexFunc, keys}) => indexFunc(object).forEach(value => {
+            const set = keys.get(value);
+            set?.delete(key);
+            if (set?.size === 0) {
+                keys.delete(value);
+            }
+        }));
+    }
+
+    /**
+     * Returns the keys of all objects that are indexed with the value.
+     * @throws {Error} if the index does not exist.
+     */
+    public byIndex(name: string, value: string): string[] {
+        if (!this.hasIndex(name)) {
+            throw new Error(`Index ${name} does not exist`);
+        }
+        return [...(this.indices[name].keys.get(value) ?? [])];
+    }
+
+    private addToIndex(name: string, key: string, object: KubernetesObject): void {
+        const {indexFunc, keys} = this.indices[name];
+        indexFunc(object).forEach(value => {
+            if (!keys.has(value)) {
+                keys.set(value, new Set());
+            }
+            keys.get(value)!.add(key);
+        });
+    }
+}
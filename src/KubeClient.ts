@@ -7,6 +7,7 @@ import {
     V1ObjectMeta as om,
     V1Status,
 } from '@kubernetes/client-node';
+import {Patch, PatchOptions} from './Patch';
 
 export interface KubernetesObject extends KO {
     apiVersion: string,
@@ -47,7 +48,11 @@ export interface WatchObject {
     object: KubernetesObject,
 }
 
-export type WatchCallback = (phase: KubernetesEventType, apiObj: any, watchObj?: WatchObject) => void
+/**
+ * Called for every watch event.
+ * The cache additionally passes the previous state of the object for MODIFIED events.
+ */
+export type WatchCallback = (phase: KubernetesEventType, apiObj: any, watchObj?: WatchObject, oldObj?: any) => void
 
 export interface KubernetesResponse<T> {
     body: T,
@@ -74,6 +79,37 @@ export interface KubeClientReader {
         exportt?: boolean,
         options?: { headers: { [name: string]: string } },
     ): Promise<void>
+
+    /**
+     * List any Kubernetes resources.
+     * @param apiVersion api group and version of the form <apiGroup>/<version>
+     * @param kind Kubernetes resource kind
+     * @param namespace list resources in this namespace
+     * @param pretty If 'true', then the output is pretty printed.
+     * @param exact Should the export be exact.  Exact export maintains cluster-specific fields like
+     *        'Namespace'. Deprecated. Planned for removal in 1.18.
+     * @param exportt Should this value be exported.  Export strips fields that a user can not
+     *        specify. Deprecated. Planned for removal in 1.18.
+     * @param fieldSelector A selector to restrict the list of returned objects by their fields. Defaults to everything.
+     * @param labelSelector A selector to restrict the list of returned objects by their labels. Defaults to everything.
+     * @param limit Number of returned resources.
+     * @param options Optional headers to use in the request.
+     * @return Promise containing the request response and [[KubernetesListObject<KubernetesObject>]].
+     * @throws {KubernetesError}
+     */
+    list<T extends KubernetesObject>(
+        apiVersion: string,
+        kind: string,
+        namespace?: string,
+        pretty?: string,
+        exact?: boolean,
+        exportt?: boolean,
+        fieldSelector?: string,
+        labelSelector?: string,
+        limit?: number,
+        continueToken?: string,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<KubernetesListObject<T>>
 }
 
 /**
@@ -153,6 +189,71 @@ export interface KubeClient extends KubeClientReader{
         options?: { headers: { [name: string]: string } },
     ): Promise<void>
 
+    /**
+     * Patch any Kubernetes resource with an explicit patch strategy and update the spec in-place with the result.
+     * The spec identifies the resource. For apply patches it is also the applied configuration.
+     * @param spec Kubernetes resource spec
+     * @param patch The patch, see mergeFrom, jsonPatchFrom, jsonPatch and apply.
+     * @param options Optional request parameters and headers.
+     * @throws {KubernetesError}
+     */
+    patchWith<T extends KubernetesObject>(
+        spec: T,
+        patch: Patch,
+        options?: PatchOptions,
+    ): Promise<void>
+
+    /**
+     * Replace the status subresource of any Kubernetes resource.
+     * Only the status of the given spec is persisted, changes to other fields are ignored by the api server.
+     * @param spec Kubernetes resource spec
+     * @param pretty If \&#39;true\&#39;, then the output is pretty printed.
+     * @param dryRun When present, indicates that modifications should not be persisted. An invalid or unrecognized
+     *        dryRun directive will result in an error response and no further processing of the request. Valid values
+     *        are: - All: all dry run stages will be processed
+     * @param fieldManager fieldManager is a name associated with the actor or entity that is making these changes. The
+     *        value must be less than or 128 characters long, and only contain printable characters, as defined by
+     *        https://golang.org/pkg/unicode/#IsPrint.
+     * @param options Optional headers to use in the request.
+     * @return Promise containing the request response and [[KubernetesObject]].
+     * @throws {KubernetesError}
+     */
+    updateStatus<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<void>
+
+    /**
+     * Patch the status subresource of any Kubernetes resource.
+     * The spec is sent as merge patch, unless another content-type header is passed in the options.
+     * @param spec Kubernetes resource spec
+     * @param pretty If \&#39;true\&#39;, then the output is pretty printed.
+     * @param dryRun When present, indicates that modifications should not be persisted. An invalid or unrecognized
+     *        dryRun directive will result in an error response and no further processing of the request. Valid values
+     *        are: - All: all dry run stages will be processed
+     * @param fieldManager fieldManager is a name associated with the actor or entity that is making these changes. The
+     *        value must be less than or 128 characters long, and only contain printable characters, as defined by
+     *        https://golang.org/pkg/unicode/#IsPrint. This field is required for apply requests
+     *        (application/apply-patch) but optional for non-apply patch types (JsonPatch, MergePatch,
+     *        StrategicMergePatch).
+     * @param force Force is going to 'force' Apply requests.  It means user will re-acquire conflicting
+     *        fields owned by other people. Force flag must be unset for non-apply patch requests.
+     * @param options Optional headers to use in the request.
+     * @return Promise containing the request response and [[KubernetesObject]].
+     * @throws {KubernetesError}
+     */
+    patchStatus<T extends KubernetesObject>(
+        spec: T,
+        pretty?: string,
+        dryRun?: string,
+        fieldManager?: string,
+        force?: boolean,
+        options?: { headers: { [name: string]: string } },
+    ): Promise<void>
+
     /**
      * Delete any Kubernetes resource.
      * @param spec Kubernetes resource spec
@@ -190,37 +291,6 @@ export interface KubeClient extends KubeClientReader{
         options?: { headers: { [name: string]: string } },
     ): Promise<V1Status>
 
-    /**
-     * List any Kubernetes resources.
-     * @param apiVersion api group and version of the form <apiGroup>/<version>
-     * @param kind Kubernetes resource kind
-     * @param namespace list resources in this namespace
-     * @param pretty If 'true', then the output is pretty printed.
-     * @param exact Should the export be exact.  Exact export maintains cluster-specific fields like
-     *        'Namespace'. Deprecated. Planned for removal in 1.18.
-     * @param exportt Should this value be exported.  Export strips fields that a user can not
-     *        specify. Deprecated. Planned for removal in 1.18.
-     * @param fieldSelector A selector to restrict the list of returned objects by their fields. Defaults to everything.
-     * @param labelSelector A selector to restrict the list of returned objects by their labels. Defaults to everything.
-     * @param limit Number of returned resources.
-     * @param options Optional headers to use in the request.
-     * @return Promise containing the request response and [[KubernetesListObject<KubernetesObject>]].
-     * @throws {KubernetesError}
-     */
-    list<T extends KubernetesObject>(
-        apiVersion: string,
-        kind: string,
-        namespace?: string,
-        pretty?: string,
-        exact?: boolean,
-        exportt?: boolean,
-        fieldSelector?: string,
-        labelSelector?: string,
-        limit?: number,
-        continueToken?: string,
-        options?: { headers: { [name: string]: string } },
-    ): Promise<KubernetesListObject<T>>
-
     /**
      * Watch the resource and call provided callback with parsed json object
      * upon event received over the watcher connection.
@@ -1,53 +1,250 @@
 import {has} from '@0cfg/utils-common/lib/has';
-import {KubernetesObject} from "@kubernetes/client-node";
+import {HttpError, KubernetesObject} from "@kubernetes/client-node";
 
 const resourceInfo = (resource: KubernetesObject): string => `[${resource.apiVersion}:${resource.kind} `
-        + `${resource.metadata?.namespace}/${resource.metadata?.name}]`;
+        + `${[resource.metadata?.namespace, resource.metadata?.name].filter(has).join('/')}]`;
 
+/**
+ * A single field error of an Invalid error.
+ */
+export interface StatusCause {
+    reason?: string,
+    message?: string,
+    field?: string,
+}
+
+/**
+ * The failure Status the api server answered with.
+ */
+export interface ErrorStatus {
+    code: number,
+    reason: string,
+    message: string,
+    details?: {
+        causes?: StatusCause[],
+        retryAfterSeconds?: number,
+    },
+}
+
+interface IKubernetesError {
+    body: ErrorStatus,
+}
+
+export const isKubernetesError = (object: unknown): object is IKubernetesError => {
+    const body = (object as IKubernetesError)?.body;
+    return has(body) && [body.code, body.reason, body.message].every(has);
+};
+
+/**
+ * Returns the Status of an error of the api server, i.e. of a KubernetesError, an HttpError or an object with a
+ * Status body. Retry-After headers are returned as retryAfterSeconds.
+ */
+export const errorStatus = (error: unknown): ErrorStatus | undefined => {
+    if (error instanceof KubernetesError) {
+        return error.status;
+    }
+    let status: ErrorStatus | undefined;
+    if (isKubernetesError(error)) {
+        status = error.body;
+    } else if (error instanceof HttpError && has(error.statusCode)) {
+        const body = typeof error.body === 'object' ? error.body : {};
+        status = {
+            code: error.statusCode,
+            reason: body?.reason ?? '',
+            message: body?.message ?? error.response?.statusMessage ?? '',
+            details: body?.details,
+        };
+    }
+    const retryAfter = Number((error as HttpError)?.response?.headers?.['retry-after']);
+    if (has(status) && !has(status.details?.retryAfterSeconds) && Number.isFinite(retryAfter)) {
+        status = {...status, details: {...status.details, retryAfterSeconds: retryAfter}};
+    }
+    return status;
+};
+
+const message = (error: unknown, resource?: KubernetesObject): string => {
+    const suffix = has(resource) ? ` - ${resourceInfo(resource)}` : '';
+    const status = errorStatus(error);
+    if (has(status)) {
+        return `Reason: ${status.reason}  Message: ${status.message}${suffix}`;
+    }
+    if (error instanceof Error) {
+        return `${error.message}${suffix}`;
+    }
+    if (typeof error === 'string') {
+        return `${error}${suffix}`;
+    }
+    return `${JSON.stringify(error)}${suffix}`;
+};
+
+/**
+ * Error of a request to the api server. Wraps the original error and the resource the request related to.
+ */
 export class KubernetesError extends Error {
+    /**
+     * The Status the api server answered with. Not set for errors without a response, e.g. connection errors.
+     */
+    public readonly status?: ErrorStatus;
+
     constructor(
         public readonly error: unknown,
         public readonly resource?: KubernetesObject,
     ) {
-        let msg = `${JSON.stringify(error)} - ${has(resource) ? resourceInfo(resource) : ''}`;
-        if (isKubernetesError(error)) {
-            msg = `Reason: ${error.body.reason}  Message: ${error.body.message} - ${resourceInfo}`;
-        } else if (error instanceof Error) {
-            msg = `${error.message} - ${resourceInfo}`;
-        } else if (typeof error === 'string') {
-            msg = error;
-        }
-        super(msg);
+        super(message(error, resource));
+        this.status = errorStatus(error);
         Object.setPrototypeOf(this, new.target.prototype);
-        this.name = this.constructor.name
+        this.name = this.constructor.name;
+    }
+
+    public get code(): number | undefined {
+        return this.status?.code;
+    }
+
+    public get reason(): string | undefined {
+        return this.status?.reason;
     }
 }
 
+const failure = (code: number, reason: string, message: string): IKubernetesError => ({body: {code, reason, message}});
+
 export class NotFound extends KubernetesError {
-    public constructor(resource?: KubernetesObject) {
-        super({
-            code: 404,
-            message: 'NOT FOUND',
-        }, resource);
+    public constructor(resource?: KubernetesObject, error: unknown = failure(404, 'NotFound', 'not found')) {
+        super(error, resource);
     }
 }
 
-interface IKubernetesError {
-    body: {
-        code: number,
-        reason: string,
-        message: string,
-    },
+/**
+ * The object was modified since it was read, i.e. the resource version of the request is outdated.
+ */
+export class Conflict extends KubernetesError {
+    public constructor(resource?: KubernetesObject, error: unknown = failure(409, 'Conflict', 'the object has been modified')) {
+        super(error, resource);
+    }
 }
 
-export const isKubernetesError = (object: unknown): object is IKubernetesError => {
-    const body = (object as IKubernetesError).body;
-    return has(body) && [body.code, body.reason, body.message].every(has);
+export class AlreadyExists extends KubernetesError {
+    public constructor(resource?: KubernetesObject, error: unknown = failure(409, 'AlreadyExists', 'already exists')) {
+        super(error, resource);
+    }
+}
+
+export class Forbidden extends KubernetesError {
+    public constructor(resource?: KubernetesObject, error: unknown = failure(403, 'Forbidden', 'forbidden')) {
+        super(error, resource);
+    }
+}
+
+export class Unauthorized extends KubernetesError {
+    public constructor(resource?: KubernetesObject, error: unknown = failure(401, 'Unauthorized', 'unauthorized')) {
+        super(error, resource);
+    }
+}
+
+/**
+ * The requested resource version or continue token is too old, e.g. of an expired list or watch.
+ */
+export class Gone extends KubernetesError {
+    public constructor(resource?: KubernetesObject, error: unknown = failure(410, 'Expired', 'resource version too old')) {
+        super(error, resource);
+    }
+}
+
+/**
+ * The object failed validation. The invalid fields are described by the causes.
+ */
+export class Invalid extends KubernetesError {
+    public constructor(resource?: KubernetesObject, error: unknown = failure(422, 'Invalid', 'invalid')) {
+        super(error, resource);
+    }
+
+    public get causes(): StatusCause[] {
+        return this.status?.details?.causes ?? [];
+    }
+}
+
+export class TooManyRequests extends KubernetesError {
+    public constructor(resource?: KubernetesObject, error: unknown = failure(429, 'TooManyRequests', 'too many requests')) {
+        super(error, resource);
+    }
+
+    /**
+     * Seconds the api server asked to wait before retrying.
+     */
+    public get retryAfterSeconds(): number | undefined {
+        return this.status?.details?.retryAfterSeconds;
+    }
+}
+
+/**
+ * The api server or a proxy timed out before the request completed.
+ */
+export class ServerTimeout extends KubernetesError {
+    public constructor(resource?: KubernetesObject, error: unknown = failure(504, 'Timeout', 'timeout')) {
+        super(error, resource);
+    }
+}
+
+/**
+ * Reasons that take precedence over the status code, e.g. AlreadyExists errors also have the code 409.
+ */
+const knownReasons = ['NotFound', 'Conflict', 'AlreadyExists', 'Forbidden', 'Unauthorized', 'Gone', 'Expired', 'Invalid',
+    'TooManyRequests', 'ServerTimeout', 'Timeout'];
+
+const hasReasonOrCode = (err: unknown, reasons: string[], code: number): boolean => {
+    const status = errorStatus(err);
+    if (!has(status)) {
+        return false;
+    }
+    return reasons.includes(status.reason) || (status.code === code && !knownReasons.includes(status.reason));
 };
 
 /**
  * Checks if the error is a resource not found error from Kubernetes.
  */
-export const isNotFoundError = (err: unknown): boolean => {
-    return isKubernetesError(err) && err.body.code === 404;
+export const isNotFoundError = (err: unknown): boolean => err instanceof NotFound || hasReasonOrCode(err, ['NotFound'], 404);
+
+export const isConflictError = (err: unknown): boolean => err instanceof Conflict || hasReasonOrCode(err, ['Conflict'], 409);
+
+export const isAlreadyExistsError = (err: unknown): boolean =>
+    err instanceof AlreadyExists || hasReasonOrCode(err, ['AlreadyExists'], 409);
+
+export const isForbiddenError = (err: unknown): boolean => err instanceof Forbidden || hasReasonOrCode(err, ['Forbidden'], 403);
+
+export const isUnauthorizedError = (err: unknown): boolean =>
+    err instanceof Unauthorized || hasReasonOrCode(err, ['Unauthorized'], 401);
+
+/**
+ * Checks if the error is a Gone or Expired error, e.g. of an expired continue token or a too old resource version.
+ */
+export const isGoneError = (err: unknown): boolean => err instanceof Gone || hasReasonOrCode(err, ['Gone', 'Expired'], 410);
+
+export const isInvalidError = (err: unknown): boolean => err instanceof Invalid || hasReasonOrCode(err, ['Invalid'], 422);
+
+export const isTooManyRequestsError = (err: unknown): boolean =>
+    err instanceof TooManyRequests || hasReasonOrCode(err, ['TooManyRequests'], 429);
+
+export const isServerTimeoutError = (err: unknown): boolean =>
+    err instanceof ServerTimeout || hasReasonOrCode(err, ['ServerTimeout', 'Timeout'], 504);
+
+/**
+ * Wraps an error of a request in the KubernetesError subclass of its Status.
+ * KubernetesErrors are returned unchanged.
+ */
+export const toKubernetesError = (error: unknown, resource?: KubernetesObject): KubernetesError => {
+    if (error instanceof KubernetesError) {
+        return error;
+    }
+    const types: [(err: unknown) => boolean, new (resource?: KubernetesObject, error?: unknown) => KubernetesError][] = [
+        [isNotFoundError, NotFound],
+        [isAlreadyExistsError, AlreadyExists],
+        [isConflictError, Conflict],
+        [isForbiddenError, Forbidden],
+        [isUnauthorizedError, Unauthorized],
+        [isGoneError, Gone],
+        [isInvalidError, Invalid],
+        [isTooManyRequestsError, TooManyRequests],
+        [isServerTimeoutError, ServerTimeout],
+    ];
+    const type = types.find(([is]) => is(error))?.[1];
+    return has(type) ? new type(resource, error) : new KubernetesError(error, resource);
 };
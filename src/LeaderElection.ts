@@ -0,0 +1,306 @@
+import {randomUUID} from 'crypto';
+import {hostname} from 'os';
+import {has} from '@0cfg/utils-common/lib/has';
+import {KubeClient, KubernetesObject} from './KubeClient';
+import {isNotFoundError} from './KubernetesError';
+import {getLogger, Logger} from './Logger';
+
+export interface LeaderElectionOptions {
+    /**
+     * Name of the coordination.k8s.io/v1 Lease that is used as lock.
+     */
+    leaseName: string;
+
+    /**
+     * Namespace of the Lease.
+     */
+    leaseNamespace: string;
+
+    /**
+     * Unique identity of this instance. Defaults to the hostname with a random suffix.
+     */
+    identity?: string;
+
+    /**
+     * Duration in milliseconds that non-leaders wait after the last observed renewal before they take over the lease.
+     * It is written to the lease as leaseDurationSeconds, other instances wait the duration of the holder.
+     * Defaults to 15 seconds.
+     */
+    leaseDuration?: number;
+
+    /**
+     * Duration in milliseconds the leader retries to renew the lease before it gives up leadership.
+     * Defaults to 10 seconds.
+     */
+    renewDeadline?: number;
+
+    /**
+     * Duration in milliseconds between attempts to acquire or renew the lease.
+     * Defaults to 2 seconds.
+     */
+    retryPeriod?: number;
+
+    /**
+     * Called when this instance acquired the lease.
+     */
+    onStartedLeading?: () => void;
+
+    /**
+     * Called when this instance lost the lease or the election was stopped while leading.
+     */
+    onStoppedLeading?: () => void;
+
+    /**
+     * Releases the lease when the election is stopped while leading, so that another instance
+     * can take over without waiting for the lease to expire. Defaults to true.
+     */
+    releaseOnStop?: boolean;
+
+    /**
+     * Defaults to the logger returned by getLogger().
+     */
+    logger?: Logger;
+}
+
+interface Lease extends KubernetesObject {
+    spec?: {
+        holderIdentity?: string,
+        leaseDurationSeconds?: number,
+        acquireTime?: string,
+        renewTime?: string,
+        leaseTransitions?: number,
+    },
+}
+
+/**
+ * Formats a date as Kubernetes MicroTime which requires microsecond precision.
+ */
+const microTime = (date: Date): string => date.toISOString().replace(/Z$/, '000Z');
+
+/**
+ * Elects a leader among multiple instances using a Lease object.
+ * Once leadership is lost the elector stops. Instances should not try to continue their work but restart.
+ */
+export class LeaderElector {
+    private readonly identity: string;
+    private readonly leaseDuration: number;
+    private readonly renewDeadline: number;
+    private readonly retryPeriod: number;
+    private running = false;
+    private leading = false;
+    private wakeUp?: () => void;
+    private observedRecord?: string;
+    private observedTime = 0;
+    private readonly logger: Logger;
+
+    public constructor(
+        private readonly client: KubeClient,
+        private readonly options: LeaderElectionOptions,
+    ) {
+        this.identity = options.identity ?? `${hostname()}_${randomUUID()}`;
+        this.leaseDuration = options.leaseDuration ?? 15000;
+        this.renewDeadline = options.renewDeadline ?? 10000;
+        this.retryPeriod = options.retryPeriod ?? 2000;
+        this.logger = (options.logger ?? getLogger()).child({
+            component: 'leader-election',
+            lease: `${options.leaseNamespace}/${options.leaseName}`,
+            identity: this.identity,
+        });
+        if (this.leaseDuration <= this.renewDeadline) {
+            throw new Error('leaseDuration must be greater than renewDeadline');
+        }
+        if (this.renewDeadline <= this.retryPeriod) {
+            throw new Error('renewDeadline must be greater than retryPeriod');
+        }
+    }
+
+    /**
+     * Tries to acquire the lease until it succeeds and renews it afterwards until it is lost or the elector is stopped.
+     */
+    public async run(): Promise<void> {
+        if (this.running) {
+            throw new Error('Leader election already running');
+        }
+        this.running = true;
+        if (!await this.acquire()) {
+            return;
+        }
+        this.leading = true;
+        this.logger.info('Acquired lease');
+        this.options.onStartedLeading?.();
+        await this.renew();
+        if (this.running) {
+            // The lease was lost.
+            this.running = false;
+            this.stopLeading();
+        }
+    }
+
+    /**
+     * Stops the election. Releases the lease and calls onStoppedLeading if the instance was leading.
+     */
+    public async stop(): Promise<void> {
+        this.running = false;
+        this.wakeUp?.();
+        if (this.leading) {
+            if (this.options.releaseOnStop ?? true) {
+                await this.release();
+            }
+            this.stopLeading();
+        }
+    }
+
+    public isLeader(): boolean {
+        return this.leading;
+    }
+
+    public getIdentity(): string {
+        return this.identity;
+    }
+
+    private async acquire(): Promise<boolean> {
+        while (this.running) {
+            if (await this.tryAcquireOrRenew()) {
+                return true;
+            }
+            await this.sleep(this.retryPeriod);
+        }
+        return false;
+    }
+
+    private async renew(): Promise<void> {
+        let lastRenew = Date.now();
+        while (this.running) {
+            await this.sleep(this.retryPeriod);
+            if (!this.running) {
+                return;
+            }
+            if (await this.tryAcquireOrRenew()) {
+                lastRenew = Date.now();
+            } else if (Date.now() - lastRenew > this.renewDeadline) {
+                this.logger.error('Failed to renew lease, leadership lost');
+                return;
+            }
+        }
+    }
+
+    /**
+     * Acquires the lease if it is not held or expired and renews it if it is held by this instance.
+     * @return true if this instance holds the lease afterwards.
+     */
+    private async tryAcquireOrRenew(): Promise<boolean> {
+        const now = new Date();
+        const lease: Lease = {
+            apiVersion: 'coordination.k8s.io/v1',
+            kind: 'Lease',
+            metadata: {
+                name: this.options.leaseName,
+                namespace: this.options.leaseNamespace,
+            },
+        };
+        try {
+            try {
+                await this.client.get(lease);
+            } catch (e) {
+                if (!isNotFoundError(e)) {
+                    throw e;
+                }
+                lease.spec = this.leaderRecord(now, now, 0);
+                await this.client.create(lease);
+                this.observe(lease, now);
+                return true;
+            }
+
+            const spec = lease.spec ?? {};
+            this.observe(lease, now);
+            const heldByOther = has(spec.holderIdentity) && spec.holderIdentity !== '' && spec.holderIdentity !== this.identity;
+            // The duration of the holder decides on expiry, as instances may be configured with different durations.
+            const leaseDuration = has(spec.leaseDurationSeconds) ? spec.leaseDurationSeconds * 1000 : this.leaseDuration;
+            if (heldByOther && this.observedTime + leaseDuration > now.getTime()) {
+                return false;
+            }
+            if (spec.holderIdentity === this.identity) {
+                lease.spec = {...spec, ...this.leaderRecord(has(spec.acquireTime) ? new Date(spec.acquireTime) : now, now, spec.leaseTransitions ?? 0)};
+            } else {
+                lease.spec = this.leaderRecord(now, now, (spec.leaseTransitions ?? 0) + 1);
+            }
+            // The update fails with a conflict if another instance modified the lease in the meantime.
+            await this.client.update(lease);
+            this.observe(lease, now);
+            return true;
+        } catch (e) {
+            this.logger.error('Failed to acquire or renew lease', {error: e});
+            return false;
+        }
+    }
+
+    private stopLeading(): void {
+        if (this.leading) {
+            this.leading = false;
+            this.options.onStoppedLeading?.();
+        }
+    }
+
+    /**
+     * Clears the holder of the lease if it is held by this instance.
+     */
+    private async release(): Promise<void> {
+        const lease: Lease = {
+            apiVersion: 'coordination.k8s.io/v1',
+            kind: 'Lease',
+            metadata: {
+                name: this.options.leaseName,
+                namespace: this.options.leaseNamespace,
+            },
+        };
+        try {
+            await this.client.get(lease);
+            if (lease.spec?.holderIdentity !== this.identity) {
+                return;
+            }
+            const now = microTime(new Date());
+            lease.spec = {
+                ...lease.spec,
+                holderIdentity: '',
+                leaseDurationSeconds: 1,
+                acquireTime: now,
+                renewTime: now,
+            };
+            await this.client.update(lease);
+        } catch (e) {
+            this.logger.error('Failed to release lease', {error: e});
+        }
+    }
+
+    private leaderRecord(acquireTime: Date, renewTime: Date, leaseTransitions: number): Lease['spec'] {
+        return {
+            holderIdentity: this.identity,
+            leaseDurationSeconds: Math.ceil(this.leaseDuration / 1000),
+            acquireTime: microTime(acquireTime),
+            renewTime: microTime(renewTime),
+            leaseTransitions,
+        };
+    }
+
+    /**
+     * Records the local time when the leader record changed.
+     * The local time is used to decide on expiry so that clock skew between instances does not matter.
+     */
+    private observe(lease: Lease, now: Date): void {
+        const record = JSON.stringify([lease.spec?.holderIdentity, lease.spec?.renewTime]);
+        if (record !== this.observedRecord) {
+            this.observedRecord = record;
+            this.observedTime = now.getTime();
+        }
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(resolve, ms);
+            this.wakeUp = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+        });
+    }
+}
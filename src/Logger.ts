@@ -0,0 +1,110 @@
+export enum LogLevel {
+    Debug = 'debug',
+    Info = 'info',
+    Warn = 'warn',
+    Error = 'error',
+}
+
+const severities: {[level in LogLevel]: number} = {
+    [LogLevel.Debug]: 0,
+    [LogLevel.Info]: 1,
+    [LogLevel.Warn]: 2,
+    [LogLevel.Error]: 3,
+};
+
+/**
+ * Structured key/value pairs of a log entry. Errors are logged with their message.
+ */
+export type LogFields = {[key: string]: unknown};
+
+export interface Logger {
+    debug(msg: string, fields?: LogFields): void;
+    info(msg: string, fields?: LogFields): void;
+    warn(msg: string, fields?: LogFields): void;
+    error(msg: string, fields?: LogFields): void;
+
+    /**
+     * Returns a logger that adds the fields to every entry.
+     */
+    child(fields: LogFields): Logger;
+}
+
+export interface JsonLoggerOptions {
+    /**
+     * Entries below this level are dropped. Defaults to info.
+     */
+    level?: LogLevel;
+
+    /**
+     * Writes a serialized entry. Defaults to writing a line to stderr.
+     */
+    write?: (line: string) => void;
+}
+
+const serialize = (_: string, value: unknown): unknown => {
+    if (value instanceof Error) {
+        return value.message;
+    }
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    return value;
+};
+
+/**
+ * Logs every entry as a single line JSON object of the form {"level", "ts", "msg", ...fields}.
+ */
+export class JsonLogger implements Logger {
+    private readonly minSeverity: number;
+    private readonly write: (line: string) => void;
+
+    public constructor(
+        private readonly options: JsonLoggerOptions = {},
+        private readonly fields: LogFields = {},
+    ) {
+        this.minSeverity = severities[options.level ?? LogLevel.Info];
+        this.write = options.write ?? (line => process.stderr.write(`${line}\n`));
+    }
+
+    public debug(msg: string, fields?: LogFields): void {
+        this.log(LogLevel.Debug, msg, fields);
+    }
+
+    public info(msg: string, fields?: LogFields): void {
+        this.log(LogLevel.Info, msg, fields);
+    }
+
+    public warn(msg: string, fields?: LogFields): void {
+        this.log(LogLevel.Warn, msg, fields);
+    }
+
+    public error(msg: string, fields?: LogFields): void {
+        this.log(LogLevel.Error, msg, fields);
+    }
+
+    public child(fields: LogFields): Logger {
+        return new JsonLogger(this.options, {...this.fields, ...fields});
+    }
+
+    private log(level: LogLevel, msg: string, fields?: LogFields): void {
+        if (severities[level] < this.minSeverity) {
+            return;
+        }
+        this.write(JSON.stringify({level, ts: new Date().toISOString(), msg, ...this.fields, ...fields}, serialize));
+    }
+}
+
+let defaultLogger: Logger = new JsonLogger();
+
+/**
+ * Returns the logger of all components that are not configured with their own logger.
+ */
+export const getLogger = (): Logger => defaultLogger;
+
+/**
+ * Replaces the logger of all components that are not configured with their own logger.
+ * Only affects components that are created afterwards.
+ */
+export const setLogger = (logger: Logger): void => {
+    defaultLogger = logger;
+};
@@ -1,22 +1,391 @@
-import {Controller, IController} from "./Controller";
+import * as http from 'http';
+import {URL} from 'url';
+import {IController} from "./Controller";
 import {Cache} from "./Cache";
-import {KubeClient} from "./KubeClient";
+import {KubeClient, KubernetesEventType, KubernetesObject, ObjectKind} from "./KubeClient";
 import {CachedKubeClient} from "./CachedKubeClient";
 import {KubeConfig} from "@kubernetes/client-node";
+import {has} from '@0cfg/utils-common/lib/has';
+import {ControllerOptions, ControllerRunner} from './ControllerRunner';
+import {DefaultKubeClient} from './DefaultKubeClient';
+import {LeaderElectionOptions, LeaderElector} from './LeaderElection';
+import {Predicate} from './Predicate';
+import {metricsContentType, metricsRegistry} from './Metrics';
+import {HealthCheck, HealthChecks, ping} from './Healthz';
+import {onAbort} from './Abort';
+import {DefaultEventRecorder} from './EventRecorder';
+import {getLogger, Logger} from './Logger';
+import {WebhookServer, WebhookServerOptions} from './WebhookServer';
+import {conversionWebhookPath, Converter, Spoke} from './Conversion';
+import {Defaulter, mutatingHandler, mutatingWebhookPath, validatingHandler, validatingWebhookPath, Validator} from './Admission';
 
 
+/**
+ * Checks that the watch event is an object event that passes all predicates.
+ */
+const passes = (predicates: Predicate[], type: KubernetesEventType, object: KubernetesObject, oldObject?: KubernetesObject): boolean => [
+    KubernetesEventType.ADDED,
+    KubernetesEventType.MODIFIED,
+    KubernetesEventType.DELETED,
+].includes(type) && predicates.every(p => p({type, object, oldObject}));
+
+/**
+ * Starts an HTTP server on the port. Requests that are not handled by the handler are answered with 404.
+ */
+const serve = (
+    port: number,
+    handler: (req: http.IncomingMessage, res: http.ServerResponse) => Promise<boolean>,
+): Promise<http.Server> => {
+    const server = http.createServer(async (req, res) => {
+        try {
+            if (!await handler(req, res)) {
+                res.writeHead(404).end();
+            }
+        } catch (e) {
+            res.writeHead(500).end();
+        }
+    });
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => resolve(server));
+    });
+};
+
+export interface ManagerOptions {
+    /**
+     * Enables leader election. Controllers only run while this instance holds the lease.
+     * Once the lease is lost the manager stops, the process is expected to exit and restart.
+     * Instances that are not the leader are reported as not ready on /readyz, unless a webhook server is configured.
+     */
+    leaderElection?: LeaderElectionOptions;
+
+    /**
+     * Maximum duration in milliseconds to wait for the cache to sync on start.
+     * Defaults to waiting until the cache is synced.
+     */
+    cacheSyncTimeout?: number;
+
+    /**
+     * Client used for all requests to the api server, e.g. a FakeKubeClient in tests.
+     * Defaults to a DefaultKubeClient for the kube config.
+     */
+    client?: KubeClient;
+
+    /**
+     * Port of the HTTP server that serves the metrics of the metrics registry on /metrics in the Prometheus
+     * text format. The server is not started if no port is set.
+     */
+    metricsPort?: number;
+
+    /**
+     * Port of the HTTP server that serves the liveness checks on /healthz and the readiness checks on /readyz.
+     * The server is not started if no port is set.
+     */
+    healthProbePort?: number;
+
+    /**
+     * Maximum duration in milliseconds stop() waits for running reconciles to finish. Defaults to 30 seconds.
+     */
+    gracefulShutdownTimeout?: number;
+
+    /**
+     * Stops the manager on SIGTERM and SIGINT. A second signal exits the process immediately.
+     */
+    handleSignals?: boolean;
+
+    /**
+     * Starts an HTTPS server for admission webhooks. Webhooks are served by every instance,
+     * independent of leader election. The leader election readiness check is therefore not added,
+     * as it would remove all but the leader from the endpoints of the webhook Service.
+     */
+    webhook?: Omit<WebhookServerOptions, 'logger'>;
+
+    /**
+     * Logger of the manager and the components it creates. Defaults to the logger returned by getLogger().
+     */
+    logger?: Logger;
+}
+
 export class Manager {
+    private readonly client: KubeClient;
     private readonly cachedClient: KubeClient;
+    private readonly controllers: {controller: IController<any>, runner: ControllerRunner<any>}[] = [];
+    private running = false;
+    private leaderElector?: LeaderElector;
+    private metricsServer?: http.Server;
+    private healthProbeServer?: http.Server;
+    private synced = false;
+    private abortController?: AbortController;
+    private stopping?: Promise<void>;
+    private removeSignalHandlers?: () => void;
+    private readonly baseLogger: Logger;
+    private readonly logger: Logger;
+    private readonly healthzChecks = new HealthChecks('/healthz');
+    private readonly readyzChecks = new HealthChecks('/readyz');
+    private readonly webhookServer?: WebhookServer;
+    private converter?: Converter;
 
     public constructor(
-        private readonly kubeConfig: KubeConfig,
+        kubeConfig: KubeConfig,
         private readonly cache: Cache,
+        private readonly options: ManagerOptions = {},
     ) {
-        this.cachedClient = new CachedKubeClient(kubeConfig, cache);
+        this.baseLogger = options.logger ?? getLogger();
+        this.logger = this.baseLogger.child({component: 'manager'});
+        this.client = options.client ?? new DefaultKubeClient(kubeConfig, {logger: this.baseLogger});
+        this.cachedClient = new CachedKubeClient(this.client, cache);
+        if (has(options.webhook)) {
+            this.webhookServer = new WebhookServer({...options.webhook, logger: this.baseLogger});
+        }
+        this.healthzChecks.add('ping', ping);
+        this.readyzChecks.add('cache-sync', () => {
+            if (!this.synced) {
+                throw new Error('cache not synced');
+            }
+        });
+        if (has(options.leaderElection) && !has(options.webhook)) {
+            this.readyzChecks.add('leader-election', () => {
+                if (!this.isLeader()) {
+                    throw new Error('not the leader');
+                }
+            });
+        }
+    }
+
+    /**
+     * Registers a named liveness check that is served on /healthz.
+     */
+    public addHealthzCheck(name: string, check: HealthCheck): void {
+        this.healthzChecks.add(name, check);
+    }
+
+    /**
+     * Registers a named readiness check that is served on /readyz.
+     * The manager is ready once the cache is synced and, with leader election enabled, this instance is the leader.
+     */
+    public addReadyzCheck(name: string, check: HealthCheck): void {
+        this.readyzChecks.add(name, check);
+    }
+
+    /**
+     * Returns the webhook server to register further webhooks.
+     * @throws {Error} if no webhook server is configured.
+     */
+    public getWebhookServer(): WebhookServer {
+        if (!has(this.webhookServer)) {
+            throw new Error('Webhook server not configured');
+        }
+        return this.webhookServer;
+    }
+
+    /**
+     * Serves a validating admission webhook for the kind on validatingWebhookPath(object).
+     */
+    public addValidator<T extends KubernetesObject>(object: ObjectKind<T>, validator: Validator<T>): void {
+        this.getWebhookServer().register(validatingWebhookPath(object), validatingHandler(validator));
     }
 
-    public addController(controller: IController<any>) {
+    /**
+     * Serves a mutating admission webhook for the kind on mutatingWebhookPath(object).
+     */
+    public addDefaulter<T extends KubernetesObject>(object: ObjectKind<T>, defaulter: Defaulter<T>): void {
+        this.getWebhookServer().register(mutatingWebhookPath(object), mutatingHandler(defaulter));
+    }
+
+    /**
+     * Serves conversions of the kind between the hub version and the spoke versions on /convert.
+     */
+    public addConversion<H extends KubernetesObject>(hub: ObjectKind<H>, ...spokes: Spoke<any, H>[]): void {
+        if (!has(this.converter)) {
+            const converter = new Converter();
+            this.getWebhookServer().register(conversionWebhookPath, converter.handler());
+            this.converter = converter;
+        }
+        this.converter.register(hub, ...spokes);
+    }
+
+    public addController(controller: IController<any>, options: ControllerOptions = {}) {
+        if (this.running) {
+            throw new Error('Manager already started. Controllers can only be added before starting the manager');
+        }
         controller.setKubeClient(this.cachedClient);
+        const runner = new ControllerRunner(controller, this.cachedClient, this.cache, {logger: this.baseLogger, ...options});
+        controller.setEventRecorder?.(new DefaultEventRecorder(this.client, {component: runner.getName(), logger: this.baseLogger}));
+        controller.setLogger?.(runner.getLogger());
+        this.controllers.push({controller, runner});
+    }
+
+    /**
+     * Registers the watched kinds of every controller in the cache, starts the cache and
+     * starts the reconcile loops of the controllers once the cache is synced.
+     * With leader election enabled the reconcile loops are started once this instance acquired the lease.
+     * Watch events are dispatched to the controllers until the manager is stopped or the signal is aborted.
+     * Returns immediately without starting if the signal is already aborted.
+     */
+    public async start(signal?: AbortSignal): Promise<void> {
+        if (this.running || has(this.abortController)) {
+            throw new Error('Manager already started');
+        }
+        if (signal?.aborted) {
+            return;
+        }
+        this.running = true;
+        this.abortController = new AbortController();
+        try {
+            await this.startServers();
+        } catch (e) {
+            // Allow starting again, e.g. once the port is free.
+            await this.closeServers();
+            this.running = false;
+            this.abortController = undefined;
+            throw e;
+        }
+        if (has(signal)) {
+            onAbort(signal, () => this.stop());
+        }
+        if (this.options.handleSignals) {
+            this.handleSignals();
+        }
+        this.controllers.forEach(({controller, runner}) => {
+            const predicates = controller.predicates?.() ?? [];
+            this.cache.addListener(controller.for(), (type: KubernetesEventType, apiObject: KubernetesObject, _, oldObject?: KubernetesObject) => {
+                if (this.running && passes(predicates, type, apiObject, oldObject)) {
+                    runner.enqueue(type, apiObject);
+                }
+            });
+            (controller.watchedKinds?.() ?? []).forEach(({object, mapFunc, predicates}) => {
+                this.cache.addListener(object, (type: KubernetesEventType, apiObject: KubernetesObject, _, oldObject?: KubernetesObject) => {
+                    if (this.running && passes(predicates, type, apiObject, oldObject)) {
+                        mapFunc(apiObject).forEach(request => runner.enqueueRequest(request));
+                    }
+                });
+            });
+        });
+        this.cache.start(this.abortController.signal);
+        try {
+            await this.cache.waitForSync({timeout: this.options.cacheSyncTimeout, signal: this.abortController.signal});
+        } catch (e) {
+            if (!this.running) {
+                // Stopped before the cache was synced.
+                return;
+            }
+            throw e;
+        }
+        this.synced = true;
+        this.logger.info('Cache synced');
+        if (!has(this.options.leaderElection)) {
+            this.startControllers();
+            return;
+        }
+        const leaderElection = this.options.leaderElection;
+        this.leaderElector = new LeaderElector(this.client, {
+            logger: this.baseLogger,
+            ...leaderElection,
+            onStartedLeading: () => {
+                this.startControllers();
+                leaderElection.onStartedLeading?.();
+            },
+            onStoppedLeading: () => {
+                this.stop();
+                leaderElection.onStoppedLeading?.();
+            },
+        });
+        this.leaderElector.run().catch(e => {
+            this.logger.error('Leader election failed', {error: e});
+            this.stop();
+        });
+    }
+
+    /**
+     * Stops dispatching watch events, aborts all watches of the cache and shuts down the reconcile loops of the controllers.
+     * Waits for running reconciles up to the graceful shutdown timeout and releases the lease afterwards
+     * if leader election is enabled. Resolves once the shutdown is complete.
+     */
+    public stop(): Promise<void> {
+        if (!this.running) {
+            return this.stopping ?? Promise.resolve();
+        }
+        this.running = false;
+        this.stopping = this.shutDown();
+        return this.stopping;
+    }
+
+    /**
+     * Returns true if leader election is disabled or this instance holds the lease.
+     */
+    public isLeader(): boolean {
+        return !has(this.leaderElector) || this.leaderElector.isLeader();
+    }
+
+    private async shutDown(): Promise<void> {
+        this.synced = false;
+        this.abortController?.abort();
+        const drained = Promise.all(this.controllers.map(({runner}) => runner.stop()));
+        const timeout = this.options.gracefulShutdownTimeout ?? 30000;
+        let timer: NodeJS.Timeout | undefined;
+        const expired = new Promise<boolean>(resolve => timer = setTimeout(() => resolve(true), timeout));
+        if (await Promise.race([drained.then(() => false), expired])) {
+            this.logger.warn('Reconciles did not finish within the graceful shutdown timeout', {timeout});
+        }
+        if (has(timer)) {
+            clearTimeout(timer);
+        }
+        await this.leaderElector?.stop();
+        await this.closeServers();
+        this.removeSignalHandlers?.();
+    }
+
+    /**
+     * Starts the metrics, health probe and webhook servers that are configured.
+     */
+    private async startServers(): Promise<void> {
+        if (has(this.options.metricsPort)) {
+            this.metricsServer = await serve(this.options.metricsPort, async (req, res) => {
+                if (req.method !== 'GET' || new URL(req.url ?? '/', 'http://localhost').pathname !== '/metrics') {
+                    return false;
+                }
+                res.writeHead(200, {'Content-Type': metricsContentType}).end(metricsRegistry.metricsText());
+                return true;
+            });
+        }
+        if (has(this.options.healthProbePort)) {
+            this.healthProbeServer = await serve(this.options.healthProbePort, async (req, res) =>
+                await this.healthzChecks.handle(req, res) || await this.readyzChecks.handle(req, res));
+        }
+        await this.webhookServer?.start();
+    }
+
+    private async closeServers(): Promise<void> {
+        await Promise.all([this.metricsServer, this.healthProbeServer]
+            .filter(has)
+            .map(server => new Promise(resolve => server.close(resolve))));
+        this.metricsServer = undefined;
+        this.healthProbeServer = undefined;
+        await this.webhookServer?.stop();
+    }
+
+    private handleSignals(): void {
+        const handler = (signal: NodeJS.Signals) => {
+            if (!this.running) {
+                this.logger.warn('Received signal during shutdown, exiting', {signal});
+                process.exit(1);
+            }
+            this.logger.info('Received signal, shutting down', {signal});
+            this.stop();
+        };
+        process.on('SIGTERM', handler);
+        process.on('SIGINT', handler);
+        this.removeSignalHandlers = () => {
+            process.off('SIGTERM', handler);
+            process.off('SIGINT', handler);
+        };
+    }
+
+    private startControllers(): void {
+        if (this.running) {
+            this.logger.info('Starting controllers', {controllers: this.controllers.map(({runner}) => runner.getName())});
+            this.controllers.forEach(({runner}) => runner.start());
+        }
     }
 
 }
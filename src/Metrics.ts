@@ -0,0 +1,272 @@
+import {has} from '@0cfg/utils-common/lib/has';
+
+export type Labels = {[name: string]: string | number};
+
+export interface MetricOptions {
+    /**
+     * Name of the metric, e.g. "myoperator_backups_total".
+     */
+    name: string;
+    help: string;
+    /**
+     * Names of the labels every sample of the metric has.
+     */
+    labelNames?: string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+    /**
+     * Upper bounds of the buckets. Defaults to defaultBuckets.
+     */
+    buckets?: number[];
+}
+
+/**
+ * Default histogram buckets for durations in seconds.
+ */
+export const defaultBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * A metric that renders itself in the Prometheus text exposition format.
+ */
+export interface Metric {
+    readonly name: string;
+
+    /**
+     * Returns the HELP, TYPE and sample lines of the metric.
+     */
+    collect(): string[];
+}
+
+const escapeLabelValue = (value: string): string => value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/"/g, '\\"');
+
+const escapeHelp = (help: string): string => help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const formatValue = (value: number): string => {
+    if (Number.isNaN(value)) {
+        return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+        return value > 0 ? '+Inf' : '-Inf';
+    }
+    return String(value);
+};
+
+const formatLabels = (labels: [string, string][]): string => labels.length === 0
+    ? ''
+    : `{${labels.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(',')}}`;
+
+/**
+ * Base class of metrics whose samples are grouped by label values.
+ */
+abstract class LabeledMetric<V> implements Metric {
+    public readonly name: string;
+    protected readonly help: string;
+    protected readonly labelNames: string[];
+    protected readonly values = new Map<string, V>();
+
+    protected constructor(options: MetricOptions, private readonly type: string) {
+        this.name = options.name;
+        this.help = options.help;
+        this.labelNames = options.labelNames ?? [];
+    }
+
+    /**
+     * Removes all samples of the metric.
+     */
+    public reset(): void {
+        this.values.clear();
+    }
+
+    public collect(): string[] {
+        const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+        [...this.values.keys()].sort().forEach(key => {
+            const labels = this.labelNamesZip(JSON.parse(key));
+            lines.push(...this.samples(labels, this.values.get(key)!));
+        });
+        return lines;
+    }
+
+    protected abstract samples(labels: [string, string][], value: V): string[];
+
+    protected key(labels: Labels = {}): string {
+        Object.keys(labels).forEach(name => {
+            if (!this.labelNames.includes(name)) {
+                throw new Error(`Unknown label ${name} for metric ${this.name}`);
+            }
+        });
+        return JSON.stringify(this.labelNames.map(name => String(labels[name] ?? '')));
+    }
+
+    private labelNamesZip(values: string[]): [string, string][] {
+        return this.labelNames.map((name, i) => [name, values[i]]);
+    }
+}
+
+/**
+ * A value that only increases, e.g. the number of handled requests.
+ */
+export class Counter extends LabeledMetric<number> {
+    public constructor(options: MetricOptions) {
+        super(options, 'counter');
+    }
+
+    public inc(labels?: Labels, value = 1): void {
+        if (value < 0) {
+            throw new Error(`Counter ${this.name} can not be decreased`);
+        }
+        const key = this.key(labels);
+        this.values.set(key, (this.values.get(key) ?? 0) + value);
+    }
+
+    public get(labels?: Labels): number {
+        return this.values.get(this.key(labels)) ?? 0;
+    }
+
+    protected samples(labels: [string, string][], value: number): string[] {
+        return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+    }
+}
+
+/**
+ * A value that can go up and down, e.g. the length of a queue.
+ */
+export class Gauge extends LabeledMetric<number> {
+    public constructor(options: MetricOptions) {
+        super(options, 'gauge');
+    }
+
+    public set(labels: Labels | undefined, value: number): void {
+        this.values.set(this.key(labels), value);
+    }
+
+    public inc(labels?: Labels, value = 1): void {
+        const key = this.key(labels);
+        this.values.set(key, (this.values.get(key) ?? 0) + value);
+    }
+
+    public dec(labels?: Labels, value = 1): void {
+        this.inc(labels, -value);
+    }
+
+    public get(labels?: Labels): number {
+        return this.values.get(this.key(labels)) ?? 0;
+    }
+
+    protected samples(labels: [string, string][], value: number): string[] {
+        return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+    }
+}
+
+interface HistogramValue {
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+/**
+ * Counts observations in cumulative buckets, e.g. durations of requests.
+ */
+export class Histogram extends LabeledMetric<HistogramValue> {
+    private readonly buckets: number[];
+
+    public constructor(options: HistogramOptions) {
+        super(options, 'histogram');
+        this.buckets = [...(options.buckets ?? defaultBuckets)].sort((a, b) => a - b);
+    }
+
+    public observe(labels: Labels | undefined, value: number): void {
+        const key = this.key(labels);
+        let histogram = this.values.get(key);
+        if (!has(histogram)) {
+            histogram = {counts: this.buckets.map(() => 0), sum: 0, count: 0};
+            this.values.set(key, histogram);
+        }
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) {
+                histogram!.counts[i]++;
+            }
+        });
+        histogram.sum += value;
+        histogram.count++;
+    }
+
+    /**
+     * Returns a function that observes the seconds elapsed since this call.
+     */
+    public startTimer(labels?: Labels): (endLabels?: Labels) => void {
+        const start = process.hrtime.bigint();
+        return (endLabels?: Labels) => this.observe(
+            {...labels, ...endLabels},
+            Number(process.hrtime.bigint() - start) / 1e9,
+        );
+    }
+
+    protected samples(labels: [string, string][], value: HistogramValue): string[] {
+        return [
+            ...this.buckets.map((bound, i) => `${this.name}_bucket${formatLabels([...labels, ['le', formatValue(bound)]])}`
+                + ` ${value.counts[i]}`),
+            `${this.name}_bucket${formatLabels([...labels, ['le', '+Inf']])} ${value.count}`,
+            `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+            `${this.name}_count${formatLabels(labels)} ${value.count}`,
+        ];
+    }
+}
+
+/**
+ * Collection of metrics that are exposed together.
+ */
+export class Registry {
+    private readonly metrics = new Map<string, Metric>();
+
+    /**
+     * @throws {Error} if a metric with the same name is already registered.
+     */
+    public register<T extends Metric>(metric: T): T {
+        if (this.metrics.has(metric.name)) {
+            throw new Error(`Metric ${metric.name} is already registered`);
+        }
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+
+    public unregister(name: string): void {
+        this.metrics.delete(name);
+    }
+
+    public counter(options: MetricOptions): Counter {
+        return this.register(new Counter(options));
+    }
+
+    public gauge(options: MetricOptions): Gauge {
+        return this.register(new Gauge(options));
+    }
+
+    public histogram(options: HistogramOptions): Histogram {
+        return this.register(new Histogram(options));
+    }
+
+    /**
+     * Returns all metrics in the Prometheus text exposition format.
+     */
+    public metricsText(): string {
+        return [...this.metrics.values()]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(m => `${m.collect().join('\n')}\n`)
+            .join('');
+    }
+}
+
+/**
+ * Registry of the metrics of the controller runtime that is served by the manager.
+ * Controllers register their own metrics here to expose them on the same endpoint.
+ */
+export const metricsRegistry = new Registry();
+
+/**
+ * Content type of the Prometheus text exposition format.
+ */
+export const metricsContentType = 'text/plain; version=0.0.4; charset=utf-8';
@@ -0,0 +1,91 @@
+import {ObjectHeader, ObjectKind} from './KubeClient';
+
+/**
+ * Returns a unique key for the api version and kind of an object.
+ */
+export const groupVersionKindKey = (object: ObjectKind<any>): string => [object.apiVersion, object.kind].join('/');
+
+/**
+ * Parses a key created with groupVersionKindKey back into the api version and kind.
+ */
+export const parseGroupVersionKind = (gvk: string): ObjectKind<any> => {
+    const s = gvk.split('/');
+    return {
+        // The api version of objects in named api groups contains a slash itself.
+        apiVersion: s.slice(0, -1).join('/'),
+        kind: s[s.length - 1],
+    };
+};
+
+/**
+ * Returns the "namespace/name" key of an object.
+ * Cluster scoped objects are keyed with an empty namespace.
+ */
+export const namespacedName = (object: ObjectHeader<any>): string => [object.metadata.namespace, object.metadata.name].join('/');
+
+/**
+ * Parses a key created with namespacedName back into the namespace and name.
+ */
+export const parseNamespacedName = (key: string): {namespace?: string, name: string} => {
+    const i = key.indexOf('/');
+    const namespace = key.substring(0, i);
+    return {
+        namespace: namespace === '' ? undefined : namespace,
+        name: key.substring(i + 1),
+    };
+};
+
+/**
+ * Returns a deep copy of a JSON like value. Dates are copied as dates.
+ */
+export const deepCopy = <T>(value: T): T => {
+    if (value instanceof Date) {
+        return new Date(value.getTime()) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(deepCopy) as unknown as T;
+    }
+    if (typeof value === 'object' && value !== null) {
+        const copy: {[key: string]: unknown} = {};
+        Object.entries(value).forEach(([k, v]) => copy[k] = deepCopy(v));
+        return copy as unknown as T;
+    }
+    return value;
+};
+
+/**
+ * Freezes a value and all values nested in it.
+ */
+export const deepFreeze = <T>(value: T): T => {
+    if (typeof value === 'object' && value !== null && !Object.isFrozen(value)) {
+        Object.freeze(value);
+        Object.values(value).forEach(deepFreeze);
+    }
+    return value;
+};
+
+/**
+ * Checks if two JSON like values are structurally equal.
+ */
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) {
+        return true;
+    }
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+    }
+    if (!isPlainObject(a) || !isPlainObject(b)) {
+        return false;
+    }
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => k in b && deepEqual(a[k], b[k]));
+};
+
+/**
+ * Checks if the value is an object that is neither an array, a date nor null.
+ */
+export const isPlainObject = (value: unknown): value is {[key: string]: unknown} =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
@@ -0,0 +1,86 @@
+import {KubernetesListObject} from '@kubernetes/client-node';
+import {has} from '@0cfg/utils-common/lib/has';
+import {KubeClientReader, KubernetesObject, ObjectKind} from './KubeClient';
+import {isGoneError} from './KubernetesError';
+
+export interface ListPagesOptions {
+    /**
+     * Defaults to all namespaces.
+     */
+    namespace?: string;
+
+    fieldSelector?: string;
+
+    labelSelector?: string;
+
+    /**
+     * Maximum number of objects per page. Defaults to 500.
+     */
+    pageSize?: number;
+
+    /**
+     * Called if the continue token expired and the list restarts with the first page.
+     * Objects of the pages that were returned before are returned again.
+     */
+    onRestart?: () => void;
+}
+
+/**
+ * Lists the objects of the kind page by page with continue tokens.
+ * If a continue token expires with 410 Gone, e.g. because listing took longer than the api server keeps
+ * the snapshot of the list, the list restarts with the first page.
+ * @throws {KubernetesError}
+ */
+export const listPages = async function* <T extends KubernetesObject>(
+    reader: KubeClientReader,
+    object: ObjectKind<T>,
+    options: ListPagesOptions = {},
+): AsyncGenerator<KubernetesListObject<T>> {
+    let continueToken: string | undefined;
+    for (;;) {
+        let page: KubernetesListObject<T>;
+        try {
+            page = await reader.list<T>(
+                object.apiVersion,
+                object.kind,
+                options.namespace,
+                undefined,
+                undefined,
+                undefined,
+                options.fieldSelector,
+                options.labelSelector,
+                options.pageSize ?? 500,
+                continueToken,
+            );
+        } catch (e) {
+            if (!has(continueToken) || !isGoneError(e)) {
+                throw e;
+            }
+            continueToken = undefined;
+            options.onRestart?.();
+            continue;
+        }
+        yield page;
+        continueToken = page.metadata?._continue || undefined;
+        if (!has(continueToken)) {
+            return;
+        }
+    }
+};
+
+/**
+ * Lists the objects of the kind page by page like listPages and returns them one by one.
+ * The objects are returned with their apiVersion and kind, which are omitted in the items of lists.
+ * @throws {KubernetesError}
+ */
+export const listObjects = async function* <T extends KubernetesObject>(
+    reader: KubeClientReader,
+    object: ObjectKind<T>,
+    options: ListPagesOptions = {},
+): AsyncGenerator<T> {
+    for await (const page of listPages(reader, object, options)) {
+        for (const item of page.items) {
+            yield {...item, apiVersion: object.apiVersion, kind: object.kind};
+        }
+    }
+};
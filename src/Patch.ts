@@ -0,0 +1,315 @@
+import {has} from '@0cfg/utils-common/lib/has';
+import {KubernetesObject} from './KubeClient';
+import {deepCopy, deepEqual, isPlainObject} from './ObjectUtils';
+
+/**
+ * The content types of the patch strategies supported by the api server.
+ */
+export enum PatchType {
+    JsonPatch = 'application/json-patch+json',
+    MergePatch = 'application/merge-patch+json',
+    StrategicMergePatch = 'application/strategic-merge-patch+json',
+    Apply = 'application/apply-patch+yaml',
+}
+
+/**
+ * A single operation of a JSON patch as defined in RFC 6902.
+ */
+export type JsonPatchOperation =
+    | {op: 'add' | 'replace' | 'test', path: string, value: unknown}
+    | {op: 'remove', path: string}
+    | {op: 'move' | 'copy', from: string, path: string};
+
+export type Patch =
+    | {type: PatchType.JsonPatch, operations: JsonPatchOperation[]}
+    | {type: PatchType.MergePatch | PatchType.StrategicMergePatch, patch: Record<string, unknown>}
+    | {
+        type: PatchType.Apply,
+        /**
+         * The field manager owning the applied fields. Required by the api server for apply requests.
+         */
+        fieldManager: string,
+        /**
+         * Re-acquires fields that are owned by other field managers instead of failing with a conflict.
+         */
+        force?: boolean,
+    };
+
+/**
+ * Thrown if a JSON patch can not be applied.
+ */
+export class JsonPatchError extends Error {
+    public constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = this.constructor.name;
+    }
+}
+
+export interface PatchOptions {
+    pretty?: string,
+    /**
+     * When set to 'All' the modifications are not persisted.
+     */
+    dryRun?: string,
+    /**
+     * Field manager for non-apply patches. Apply patches define their own field manager.
+     */
+    fieldManager?: string,
+    headers?: {[name: string]: string},
+}
+
+export interface PatchFromOptions {
+    /**
+     * Includes the resource version of the before object so that the patch fails with a conflict
+     * if the object was modified in the meantime.
+     */
+    optimisticLock?: boolean,
+}
+
+/**
+ * Fields with an undefined value are treated as missing, as they are dropped when the patch is serialized.
+ */
+const isSet = (object: Record<string, unknown>, key: string): boolean => object[key] !== undefined;
+
+/**
+ * Returns a merge patch (RFC 7386) that transforms the before object into the after object.
+ * Removed fields are set to null and arrays are replaced as a whole.
+ */
+export const createMergePatch = (before: unknown, after: unknown): unknown => {
+    if (!isPlainObject(before) || !isPlainObject(after)) {
+        return after;
+    }
+    const patch: Record<string, unknown> = {};
+    Object.keys(before).filter(k => isSet(before, k) && !isSet(after, k)).forEach(k => patch[k] = null);
+    Object.entries(after).filter(([k]) => isSet(after, k)).forEach(([k, v]) => {
+        if (!isSet(before, k)) {
+            patch[k] = v;
+            return;
+        }
+        if (deepEqual(before[k], v)) {
+            return;
+        }
+        if (isPlainObject(before[k]) && isPlainObject(v)) {
+            patch[k] = createMergePatch(before[k], v);
+            return;
+        }
+        patch[k] = v;
+    });
+    return patch;
+};
+
+/**
+ * Returns the JSON patch (RFC 6902) operations that transform the before object into the after object.
+ * Changed arrays are replaced as a whole.
+ */
+export const createJsonPatch = (before: unknown, after: unknown, path = ''): JsonPatchOperation[] => {
+    if (deepEqual(before, after)) {
+        return [];
+    }
+    if (!isPlainObject(before) || !isPlainObject(after)) {
+        return [{op: 'replace', path, value: after}];
+    }
+    const operations: JsonPatchOperation[] = [];
+    Object.keys(before).filter(k => isSet(before, k) && !isSet(after, k)).forEach(k => {
+        operations.push({op: 'remove', path: `${path}/${escapePointer(k)}`});
+    });
+    Object.entries(after).filter(([k]) => isSet(after, k)).forEach(([k, v]) => {
+        const p = `${path}/${escapePointer(k)}`;
+        if (!isSet(before, k)) {
+            operations.push({op: 'add', path: p, value: v});
+            return;
+        }
+        operations.push(...createJsonPatch(before[k], v, p));
+    });
+    return operations;
+};
+
+/**
+ * Applies a merge patch (RFC 7386) to a value and returns the result. The value is not modified.
+ */
+export const applyMergePatch = (value: unknown, patch: unknown): unknown => {
+    if (!isPlainObject(patch)) {
+        return deepCopy(patch);
+    }
+    const result: Record<string, unknown> = isPlainObject(value) ? deepCopy(value) : {};
+    Object.entries(patch).forEach(([k, v]) => {
+        if (v === null) {
+            delete result[k];
+            return;
+        }
+        result[k] = applyMergePatch(result[k], v);
+    });
+    return result;
+};
+
+/**
+ * Applies JSON patch (RFC 6902) operations to a value and returns the result. The value is not modified.
+ * @throws {JsonPatchError} if an operation can not be applied or a test operation fails.
+ */
+export const applyJsonPatch = (value: unknown, operations: JsonPatchOperation[]): unknown => {
+    let result = deepCopy(value);
+    operations.forEach(operation => {
+        switch (operation.op) {
+            case 'add':
+                result = addValue(result, parsePointer(operation.path), deepCopy(operation.value));
+                break;
+            case 'remove':
+                result = removeValue(result, parsePointer(operation.path));
+                break;
+            case 'replace':
+                result = addValue(
+                    removeValue(result, parsePointer(operation.path)),
+                    parsePointer(operation.path),
+                    deepCopy(operation.value),
+                );
+                break;
+            case 'move': {
+                const moved = getValue(result, parsePointer(operation.from));
+                result = addValue(removeValue(result, parsePointer(operation.from)), parsePointer(operation.path), moved);
+                break;
+            }
+            case 'copy':
+                result = addValue(result, parsePointer(operation.path), deepCopy(getValue(result, parsePointer(operation.from))));
+                break;
+            case 'test':
+                if (!deepEqual(getValue(result, parsePointer(operation.path)), operation.value)) {
+                    throw new JsonPatchError(`Test operation failed for ${operation.path}`);
+                }
+                break;
+        }
+    });
+    return result;
+};
+
+/**
+ * Creates a merge patch from the difference of the before and after object.
+ */
+export const mergeFrom = <T extends KubernetesObject>(before: T, after: T, options: PatchFromOptions = {}): Patch => {
+    const patch = createMergePatch(before, after) as Record<string, unknown>;
+    if (options.optimisticLock) {
+        patch.metadata = {
+            ...(patch.metadata as Record<string, unknown> ?? {}),
+            resourceVersion: before.metadata.resourceVersion,
+        };
+    }
+    return {type: PatchType.MergePatch, patch};
+};
+
+/**
+ * Creates a JSON patch from the difference of the before and after object.
+ */
+export const jsonPatchFrom = <T extends KubernetesObject>(before: T, after: T, options: PatchFromOptions = {}): Patch => {
+    const operations = createJsonPatch(before, after);
+    if (options.optimisticLock) {
+        operations.unshift({op: 'test', path: '/metadata/resourceVersion', value: before.metadata.resourceVersion});
+    }
+    return {type: PatchType.JsonPatch, operations};
+};
+
+/**
+ * Creates a raw JSON patch.
+ */
+export const jsonPatch = (...operations: JsonPatchOperation[]): Patch => ({type: PatchType.JsonPatch, operations});
+
+/**
+ * Creates a server-side apply patch of the object the patch is sent with.
+ */
+export const apply = (fieldManager: string, force?: boolean): Patch => ({type: PatchType.Apply, fieldManager, force});
+
+/**
+ * Returns the request body of the patch for the object.
+ * Apply patches send the object itself without its managed fields as the api server rejects them.
+ */
+export const patchBody = (object: KubernetesObject, patch: Patch): unknown => {
+    switch (patch.type) {
+        case PatchType.JsonPatch:
+            return patch.operations;
+        case PatchType.MergePatch:
+        case PatchType.StrategicMergePatch:
+            return patch.patch;
+        case PatchType.Apply: {
+            const {managedFields, ...metadata} = object.metadata;
+            return {...object, metadata};
+        }
+    }
+};
+
+/**
+ * Validates the patch before it is sent to the api server.
+ * @throws {Error}
+ */
+export const validatePatch = (patch: Patch): void => {
+    if (patch.type === PatchType.Apply && (!has(patch.fieldManager) || patch.fieldManager === '')) {
+        throw new Error('A field manager is required for apply patches');
+    }
+};
+
+/**
+ * Escapes a key to be used as a JSON pointer segment.
+ */
+const escapePointer = (key: string): string => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Parses a JSON pointer into its unescaped segments.
+ */
+const parsePointer = (pointer: string): string[] => {
+    if (pointer === '') {
+        return [];
+    }
+    if (!pointer.startsWith('/')) {
+        throw new JsonPatchError(`Invalid JSON pointer ${pointer}`);
+    }
+    return pointer.substring(1).split('/').map(s => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const getValue = (value: unknown, path: string[]): unknown => path.reduce((current: unknown, segment) => {
+    if (Array.isArray(current) && /^\d+$/.test(segment) && Number(segment) < current.length) {
+        return current[Number(segment)];
+    }
+    if (isPlainObject(current) && segment in current) {
+        return current[segment];
+    }
+    throw new JsonPatchError(`Path /${path.join('/')} does not exist`);
+}, value);
+
+/**
+ * Adds the value at the path in-place and returns the possibly replaced root.
+ */
+const addValue = (root: unknown, path: string[], value: unknown): unknown => {
+    if (path.length === 0) {
+        return value;
+    }
+    const parent = getValue(root, path.slice(0, -1));
+    const key = path[path.length - 1];
+    if (Array.isArray(parent)) {
+        const index = key === '-' ? parent.length : Number(key);
+        if (!/^\d+$/.test(key) && key !== '-' || index > parent.length) {
+            throw new JsonPatchError(`Invalid array index ${key}`);
+        }
+        parent.splice(index, 0, value);
+    } else if (isPlainObject(parent)) {
+        parent[key] = value;
+    } else {
+        throw new JsonPatchError(`Path /${path.slice(0, -1).join('/')} is not a container`);
+    }
+    return root;
+};
+
+/**
+ * Removes the value at the path in-place and returns the possibly replaced root.
+ */
+const removeValue = (root: unknown, path: string[]): unknown => {
+    if (path.length === 0) {
+        return undefined;
+    }
+    getValue(root, path);
+    const parent = getValue(root, path.slice(0, -1));
+    const key = path[path.length - 1];
+    if (Array.isArray(parent)) {
+        parent.splice(Number(key), 1);
+    } else {
+        delete (parent as Record<string, unknown>)[key];
+    }
+    return root;
+};
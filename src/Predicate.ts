@@ -0,0 +1,98 @@
+import {has} from '@0cfg/utils-common/lib/has';
+import {KubernetesEventType, KubernetesObject} from './KubeClient';
+import {parseLabelSelector} from './Selector';
+
+/**
+ * Describes a watch event that is checked by predicates.
+ */
+export interface PredicateEvent {
+    type: KubernetesEventType,
+    object: KubernetesObject,
+    /**
+     * State of the object before the event. Only set for MODIFIED events.
+     */
+    oldObject?: KubernetesObject,
+}
+
+/**
+ * Decides whether a watch event should trigger a reconcile.
+ */
+export type Predicate = (event: PredicateEvent) => boolean;
+
+const stringMapEqual = (a: {[key: string]: string} = {}, b: {[key: string]: string} = {}): boolean => {
+    const aKeys = Object.keys(a);
+    return aKeys.length === Object.keys(b).length && aKeys.every(k => a[k] === b[k]);
+};
+
+/**
+ * Builds a predicate from functions per event type. Event types without function pass.
+ */
+export const predicateFuncs = (funcs: {
+    added?: (object: KubernetesObject) => boolean,
+    modified?: (oldObject: KubernetesObject | undefined, object: KubernetesObject) => boolean,
+    deleted?: (object: KubernetesObject) => boolean,
+}): Predicate => (event: PredicateEvent): boolean => {
+    switch (event.type) {
+        case KubernetesEventType.ADDED:
+            return funcs.added?.(event.object) ?? true;
+        case KubernetesEventType.MODIFIED:
+            return funcs.modified?.(event.oldObject, event.object) ?? true;
+        case KubernetesEventType.DELETED:
+            return funcs.deleted?.(event.object) ?? true;
+        default:
+            return true;
+    }
+};
+
+/**
+ * Skips modifications that do not change metadata.generation, e.g. status updates.
+ * Modifications of objects without a generation always pass.
+ */
+export const generationChanged: Predicate = predicateFuncs({
+    modified: (oldObject, object) => !has(oldObject)
+        || !has(object.metadata.generation)
+        || oldObject.metadata.generation !== object.metadata.generation,
+});
+
+/**
+ * Skips modifications that do not change the labels.
+ */
+export const labelsChanged: Predicate = predicateFuncs({
+    modified: (oldObject, object) => !has(oldObject) || !stringMapEqual(oldObject.metadata.labels, object.metadata.labels),
+});
+
+/**
+ * Skips modifications that do not change the annotations.
+ */
+export const annotationsChanged: Predicate = predicateFuncs({
+    modified: (oldObject, object) => !has(oldObject) || !stringMapEqual(oldObject.metadata.annotations, object.metadata.annotations),
+});
+
+/**
+ * Passes events of objects whose labels match the label selector.
+ * @throws {Error} if the selector is invalid.
+ */
+export const labelSelectorMatches = (selector: string): Predicate => {
+    const matches = parseLabelSelector(selector);
+    return (event: PredicateEvent) => matches(event.object.metadata.labels);
+};
+
+/**
+ * Passes events of objects in one of the given namespaces.
+ */
+export const namespaceMatches = (...namespaces: string[]): Predicate => (event: PredicateEvent) => namespaces.includes(event.object.metadata.namespace ?? '');
+
+/**
+ * Passes events that pass all predicates.
+ */
+export const and = (...predicates: Predicate[]): Predicate => (event: PredicateEvent) => predicates.every(p => p(event));
+
+/**
+ * Passes events that pass at least one of the predicates.
+ */
+export const or = (...predicates: Predicate[]): Predicate => (event: PredicateEvent) => predicates.some(p => p(event));
+
+/**
+ * Passes events that do not pass the predicate.
+ */
+export const not = (predicate: Predicate): Predicate => (event: PredicateEvent) => !predicate(event);
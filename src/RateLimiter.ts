@@ -0,0 +1,99 @@
+/**
+ * Decides how long an item has to wait before it is processed again.
+ */
+export interface RateLimiter {
+    /**
+     * Returns the delay in milliseconds before the item should be processed again.
+     * Every call counts as a failure of the item.
+     */
+    when(item: string): number;
+
+    /**
+     * Indicates that the item is finished and its failures should not be tracked anymore.
+     */
+    forget(item: string): void;
+
+    /**
+     * Returns the number of failures of the item.
+     */
+    numRequeues(item: string): number;
+}
+
+/**
+ * Rate limiter that backs off exponentially per item: baseDelay * 2^<number of failures>, limited by maxDelay.
+ */
+export class ItemExponentialFailureRateLimiter implements RateLimiter {
+    private readonly failures = new Map<string, number>();
+
+    /**
+     * @param baseDelay Delay in milliseconds after the first failure.
+     * @param maxDelay Upper bound of the delay in milliseconds.
+     */
+    public constructor(
+        private readonly baseDelay: number = 5,
+        private readonly maxDelay: number = 1000 * 1000,
+    ) {
+    }
+
+    public when(item: string): number {
+        const failures = this.failures.get(item) ?? 0;
+        this.failures.set(item, failures + 1);
+        return Math.min(this.baseDelay * Math.pow(2, failures), this.maxDelay);
+    }
+
+    public forget(item: string): void {
+        this.failures.delete(item);
+    }
+
+    public numRequeues(item: string): number {
+        return this.failures.get(item) ?? 0;
+    }
+}
+
+/**
+ * Rate limiter with a token bucket that is shared by all items: the bucket holds up to burst tokens and
+ * is refilled with qps tokens per second. Every call takes a token and returns the delay until the token is available,
+ * so callers that are delayed are served in the order of their calls.
+ */
+export class TokenBucketRateLimiter implements RateLimiter {
+    private tokens: number;
+    private updatedAt = Date.now();
+
+    /**
+     * @param qps Tokens that are added per second.
+     * @param burst Maximum number of tokens, i.e. calls that are not delayed after a pause.
+     */
+    public constructor(
+        private readonly qps: number,
+        private readonly burst: number,
+    ) {
+        if (qps <= 0 || burst < 1) {
+            throw new Error('qps must be positive and burst at least 1');
+        }
+        this.tokens = burst;
+    }
+
+    public when(): number {
+        const now = Date.now();
+        this.tokens = Math.min(this.burst, this.tokens + (now - this.updatedAt) * this.qps / 1000);
+        this.updatedAt = now;
+        this.tokens--;
+        return this.tokens >= 0 ? 0 : -this.tokens / this.qps * 1000;
+    }
+
+    /**
+     * Takes a token and resolves once it is available.
+     */
+    public wait(): Promise<void> {
+        const delay = this.when();
+        return delay > 0 ? new Promise(resolve => setTimeout(resolve, delay)) : Promise.resolve();
+    }
+
+    public forget(): void {
+        // Tokens are not tracked per item.
+    }
+
+    public numRequeues(): number {
+        return 0;
+    }
+}
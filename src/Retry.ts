@@ -0,0 +1,48 @@
+import {Backoff, BackoffOptions} from './Backoff';
+import {KubeClient, KubernetesObject} from './KubeClient';
+import {isConflictError} from './KubernetesError';
+
+export interface RetryOnConflictOptions extends BackoffOptions {
+    /**
+     * Maximum number of updates that are attempted. Defaults to 5.
+     */
+    attempts?: number;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Reads the latest state of the object, applies the mutation to it and updates it.
+ * If the update fails with a conflict, the object is read again and the mutation is applied again after a backoff
+ * that starts at 10ms. On success the object is assigned the updated state.
+ * @throws {Conflict} if the update still conflicts after the maximum number of attempts.
+ * @throws {KubernetesError} if reading or updating the object fails otherwise.
+ */
+export const retryOnConflict = async <T extends KubernetesObject>(
+    client: KubeClient,
+    object: T,
+    mutate: (object: T) => Promise<void> | void,
+    options: RetryOnConflictOptions = {},
+): Promise<void> => {
+    const {attempts = 5, ...backoffOptions} = options;
+    const backoff = new Backoff({initialDelay: 10, jitter: 0.1, ...backoffOptions});
+    for (let attempt = 1; ; attempt++) {
+        const current = {
+            apiVersion: object.apiVersion,
+            kind: object.kind,
+            metadata: {name: object.metadata.name, namespace: object.metadata.namespace},
+        } as T;
+        try {
+            await client.get(current);
+            await mutate(current);
+            await client.update(current);
+            Object.assign(object, current);
+            return;
+        } catch (e) {
+            if (!isConflictError(e) || attempt >= attempts) {
+                throw e;
+            }
+        }
+        await sleep(backoff.next());
+    }
+};
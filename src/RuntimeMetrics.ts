@@ -0,0 +1,73 @@
+import {metricsRegistry} from './Metrics';
+
+export const reconcileTotal = metricsRegistry.counter({
+    name: 'controller_runtime_reconcile_total',
+    help: 'Total number of reconciliations per controller',
+    labelNames: ['controller', 'result'],
+});
+
+export const reconcileErrors = metricsRegistry.counter({
+    name: 'controller_runtime_reconcile_errors_total',
+    help: 'Total number of reconciliation errors per controller',
+    labelNames: ['controller'],
+});
+
+export const reconcileTime = metricsRegistry.histogram({
+    name: 'controller_runtime_reconcile_time_seconds',
+    help: 'Length of time per reconciliation per controller',
+    labelNames: ['controller'],
+});
+
+export const workQueueDepth = metricsRegistry.gauge({
+    name: 'workqueue_depth',
+    help: 'Current depth of workqueue',
+    labelNames: ['name'],
+});
+
+export const workQueueAdds = metricsRegistry.counter({
+    name: 'workqueue_adds_total',
+    help: 'Total number of adds handled by workqueue',
+    labelNames: ['name'],
+});
+
+export const workQueueRetries = metricsRegistry.counter({
+    name: 'workqueue_retries_total',
+    help: 'Total number of retries handled by workqueue',
+    labelNames: ['name'],
+});
+
+export const workQueueLatency = metricsRegistry.histogram({
+    name: 'workqueue_queue_duration_seconds',
+    help: 'How long in seconds an item stays in workqueue before being requested',
+    labelNames: ['name'],
+});
+
+export const workQueueWorkDuration = metricsRegistry.histogram({
+    name: 'workqueue_work_duration_seconds',
+    help: 'How long in seconds processing an item from workqueue takes',
+    labelNames: ['name'],
+});
+
+export const clientRequests = metricsRegistry.counter({
+    name: 'rest_client_requests_total',
+    help: 'Number of HTTP requests, partitioned by verb and status code',
+    labelNames: ['verb', 'code'],
+});
+
+export const clientRequestLatency = metricsRegistry.histogram({
+    name: 'rest_client_request_duration_seconds',
+    help: 'Request latency in seconds, partitioned by verb and status code',
+    labelNames: ['verb', 'code'],
+});
+
+export const cacheObjects = metricsRegistry.gauge({
+    name: 'controller_runtime_cache_objects',
+    help: 'Number of cached objects per kind',
+    labelNames: ['kind'],
+});
+
+export const cacheWatchRestarts = metricsRegistry.counter({
+    name: 'controller_runtime_cache_watch_restarts_total',
+    help: 'Number of restarted watches per kind',
+    labelNames: ['kind'],
+});
@@ -0,0 +1,110 @@
+import {has} from '@0cfg/utils-common/lib/has';
+
+/**
+ * Decides whether a set of labels matches a selector.
+ */
+export type LabelMatcher = (labels?: {[key: string]: string}) => boolean;
+
+const key = '([^\\s=!(),]+)';
+const notExistsRequirement = new RegExp(`^!\\s*${key}$`);
+const existsRequirement = new RegExp(`^${key}$`);
+const setRequirement = new RegExp(`^${key}\\s+(in|notin)\\s*\\(([^()]*)\\)$`);
+const equalityRequirement = new RegExp(`^${key}\\s*(==|=|!=)\\s*([^\\s=!(),]*)$`);
+
+/**
+ * Splits a selector at all commas that are not part of a value set.
+ */
+export const splitRequirements = (selector: string): string[] => {
+    const requirements: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < selector.length; i++) {
+        if (selector[i] === '(') {
+            depth++;
+        } else if (selector[i] === ')') {
+            depth--;
+        } else if (selector[i] === ',' && depth === 0) {
+            requirements.push(selector.substring(start, i));
+            start = i + 1;
+        }
+    }
+    requirements.push(selector.substring(start));
+    return requirements.map(r => r.trim()).filter(r => r !== '');
+};
+
+const parseRequirement = (requirement: string, selector: string): LabelMatcher => {
+    let m = notExistsRequirement.exec(requirement);
+    if (has(m)) {
+        const [, k] = m;
+        return labels => !has(labels?.[k]);
+    }
+    m = existsRequirement.exec(requirement);
+    if (has(m)) {
+        const [, k] = m;
+        return labels => has(labels?.[k]);
+    }
+    m = setRequirement.exec(requirement);
+    if (has(m)) {
+        const [, k, operator, values] = m;
+        const set = new Set(values.split(',').map(v => v.trim()));
+        if (operator === 'in') {
+            return labels => has(labels?.[k]) && set.has(labels![k]);
+        }
+        return labels => !has(labels?.[k]) || !set.has(labels![k]);
+    }
+    m = equalityRequirement.exec(requirement);
+    if (has(m)) {
+        const [, k, operator, value] = m;
+        if (operator === '!=') {
+            return labels => labels?.[k] !== value;
+        }
+        return labels => labels?.[k] === value;
+    }
+    throw new Error(`Invalid label selector "${selector}": unable to parse requirement "${requirement}"`);
+};
+
+/**
+ * Parses a Kubernetes label selector string like "app=web,tier in (frontend,backend),!canary".
+ * An empty selector matches everything.
+ * @throws {Error} if the selector is invalid.
+ */
+export const parseLabelSelector = (selector: string): LabelMatcher => {
+    const requirements = splitRequirements(selector).map(r => parseRequirement(r, selector));
+    return labels => requirements.every(r => r(labels));
+};
+
+/**
+ * Decides whether an object matches a field selector.
+ */
+export type FieldMatcher = (object: unknown) => boolean;
+
+const fieldRequirement = /^([^\s=!,]+)\s*(==|=|!=)\s*([^\s=!,]*)$/;
+
+/**
+ * Returns the value of a dot separated field path like "spec.nodeName".
+ * Missing fields are treated as empty string as the Kubernetes api does.
+ */
+export const fieldValue = (object: unknown, path: string): string => {
+    const value = path.split('.').reduce((o: any, field) => o?.[field], object);
+    return has(value) ? String(value) : '';
+};
+
+/**
+ * Parses a Kubernetes field selector string like "metadata.name=web,status.phase!=Running".
+ * An empty selector matches everything.
+ * @throws {Error} if the selector is invalid.
+ */
+export const parseFieldSelector = (selector: string): FieldMatcher => {
+    const requirements = selector.split(',').map(r => r.trim()).filter(r => r !== '').map((requirement): FieldMatcher => {
+        const m = fieldRequirement.exec(requirement);
+        if (!has(m)) {
+            throw new Error(`Invalid field selector "${selector}": unable to parse requirement "${requirement}"`);
+        }
+        const [, path, operator, value] = m;
+        if (operator === '!=') {
+            return object => fieldValue(object, path) !== value;
+        }
+        return object => fieldValue(object, path) === value;
+    });
+    return object => requirements.every(r => r(object));
+};
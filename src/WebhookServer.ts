@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import {IncomingMessage, ServerResponse} from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import {URL} from 'url';
+import {has} from '@0cfg/utils-common/lib/has';
+import {getLogger, Logger} from './Logger';
+
+export interface WebhookServerOptions {
+    /**
+     * Defaults to 9443.
+     */
+    port?: number;
+
+    /**
+     * Directory that contains the serving certificate and key. The server reloads them when the files change,
+     * e.g. when a mounted secret is rotated.
+     */
+    certDir: string;
+
+    /**
+     * Defaults to tls.crt.
+     */
+    certName?: string;
+
+    /**
+     * Defaults to tls.key.
+     */
+    keyName?: string;
+
+    /**
+     * Defaults to the logger returned by getLogger().
+     */
+    logger?: Logger;
+}
+
+/**
+ * Handles the decoded JSON body of a webhook request and returns the JSON body of the response.
+ */
+export type WebhookHandler = (body: any) => Promise<unknown>;
+
+/**
+ * Thrown by webhook handlers if the request can not be decoded. Answered with 400.
+ */
+export class BadRequestError extends Error {
+    public constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = this.constructor.name;
+    }
+}
+
+/**
+ * Maximum size of a request body. The api server limits admission reviews to 3MB objects.
+ */
+const maxBodySize = 7 * 1024 * 1024;
+
+/**
+ * Delay in milliseconds after a change of the certificate directory before the certificate is reloaded,
+ * so that the certificate and key are both updated.
+ */
+const reloadDelay = 500;
+
+/**
+ * HTTPS server for admission and conversion webhooks that are called by the api server.
+ * Handlers are registered per path and receive the decoded JSON request body.
+ */
+export class WebhookServer {
+    private readonly handlers = new Map<string, WebhookHandler>();
+    private readonly logger: Logger;
+    private server?: https.Server;
+    private watcher?: fs.FSWatcher;
+    private reloadTimer?: NodeJS.Timeout;
+
+    public constructor(private readonly options: WebhookServerOptions) {
+        this.logger = (options.logger ?? getLogger()).child({component: 'webhook'});
+    }
+
+    /**
+     * @throws {Error} if a handler is already registered for the path.
+     */
+    public register(path: string, handler: WebhookHandler): void {
+        if (this.handlers.has(path)) {
+            throw new Error(`A webhook is already registered for ${path}`);
+        }
+        this.handlers.set(path, handler);
+        this.logger.info('Registered webhook', {path});
+    }
+
+    public async start(): Promise<void> {
+        if (has(this.server)) {
+            throw new Error('Webhook server already started');
+        }
+        const server = https.createServer(await this.readCertificate(), (req, res) => this.handle(req, res));
+        this.server = server;
+        this.watcher = fs.watch(this.options.certDir, () => {
+            if (has(this.reloadTimer)) {
+                clearTimeout(this.reloadTimer);
+            }
+            this.reloadTimer = setTimeout(() => this.reloadCertificate(), reloadDelay);
+        });
+        const port = this.options.port ?? 9443;
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, () => resolve());
+        });
+        this.logger.info('Serving webhooks', {port});
+    }
+
+    public async stop(): Promise<void> {
+        if (has(this.reloadTimer)) {
+            clearTimeout(this.reloadTimer);
+        }
+        this.watcher?.close();
+        this.watcher = undefined;
+        const server = this.server;
+        this.server = undefined;
+        if (has(server)) {
+            await new Promise(resolve => server.close(resolve));
+        }
+    }
+
+    private async readCertificate(): Promise<{cert: Buffer, key: Buffer}> {
+        const [cert, key] = await Promise.all([
+            fs.promises.readFile(path.join(this.options.certDir, this.options.certName ?? 'tls.crt')),
+            fs.promises.readFile(path.join(this.options.certDir, this.options.keyName ?? 'tls.key')),
+        ]);
+        return {cert, key};
+    }
+
+    private async reloadCertificate(): Promise<void> {
+        try {
+            const certificate = await this.readCertificate();
+            this.server?.setSecureContext(certificate);
+            this.logger.info('Reloaded certificate');
+        } catch (e) {
+            this.logger.error('Unable to reload certificate, serving the previous certificate', {error: e});
+        }
+    }
+
+    private handle(req: IncomingMessage, res: ServerResponse): void {
+        const handler = this.handlers.get(new URL(req.url ?? '/', 'https://localhost').pathname);
+        if (!has(handler)) {
+            res.writeHead(404).end();
+            return;
+        }
+        if (req.method !== 'POST') {
+            res.writeHead(405).end();
+            return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBodySize) {
+                res.writeHead(413).end();
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', async () => {
+            if (res.writableEnded) {
+                return;
+            }
+            try {
+                let body: unknown;
+                try {
+                    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+                } catch (e) {
+                    throw new BadRequestError('Request body is not valid JSON');
+                }
+                const response = await handler(body);
+                res.writeHead(200, {'Content-Type': 'application/json'}).end(JSON.stringify(response));
+            } catch (e) {
+                if (e instanceof BadRequestError) {
+                    res.writeHead(400, {'Content-Type': 'text/plain'}).end(e.message);
+                    return;
+                }
+                this.logger.error('Webhook failed', {path: req.url, error: e});
+                res.writeHead(500).end();
+            }
+        });
+    }
+}
@@ -0,0 +1,179 @@
+import {has} from '@0cfg/utils-common/lib/has';
+import {ItemExponentialFailureRateLimiter, RateLimiter} from './RateLimiter';
+import {workQueueAdds, workQueueDepth, workQueueLatency, workQueueRetries, workQueueWorkDuration} from './RuntimeMetrics';
+
+/**
+ * Work queue of string keys.
+ * - An item that is added multiple times before it is processed is only processed once.
+ * - An item is never processed by multiple consumers at the same time. If an item is added
+ *   while it is processed, it is queued again once the consumer called done().
+ * - Items can be added delayed and rate limited.
+ * Named queues record their depth, adds, retries and latencies as metrics.
+ */
+export class WorkQueue {
+    private queue: string[] = [];
+    private readonly dirty = new Set<string>();
+    private readonly processing = new Set<string>();
+    private readonly waiting: ((item?: string) => void)[] = [];
+    private readonly delayed = new Map<string, {timer: NodeJS.Timeout, readyAt: number}>();
+    private readonly queuedAt = new Map<string, number>();
+    private readonly startedAt = new Map<string, number>();
+    private shuttingDown = false;
+
+    public constructor(
+        private readonly rateLimiter: RateLimiter = new ItemExponentialFailureRateLimiter(),
+        private readonly name?: string,
+    ) {
+    }
+
+    /**
+     * Marks the item as needing to be processed.
+     */
+    public add(item: string): void {
+        if (this.shuttingDown || this.dirty.has(item)) {
+            return;
+        }
+        this.dirty.add(item);
+        if (has(this.name)) {
+            workQueueAdds.inc({name: this.name});
+            this.queuedAt.set(item, Date.now());
+        }
+        if (this.processing.has(item)) {
+            return;
+        }
+        this.push(item);
+    }
+
+    /**
+     * Adds the item after the given delay in milliseconds.
+     * If the item is already waiting, the earlier point in time wins.
+     */
+    public addAfter(item: string, delay: number): void {
+        if (this.shuttingDown) {
+            return;
+        }
+        if (delay <= 0) {
+            this.add(item);
+            return;
+        }
+        const readyAt = Date.now() + delay;
+        const existing = this.delayed.get(item);
+        if (has(existing)) {
+            if (existing.readyAt <= readyAt) {
+                return;
+            }
+            clearTimeout(existing.timer);
+        }
+        const timer = setTimeout(() => {
+            this.delayed.delete(item);
+            this.add(item);
+        }, delay);
+        this.delayed.set(item, {timer, readyAt});
+    }
+
+    /**
+     * Adds the item after the delay the rate limiter decides for it.
+     */
+    public addRateLimited(item: string): void {
+        if (has(this.name)) {
+            workQueueRetries.inc({name: this.name});
+        }
+        this.addAfter(item, this.rateLimiter.when(item));
+    }
+
+    /**
+     * Stops tracking the failures of the item in the rate limiter.
+     */
+    public forget(item: string): void {
+        this.rateLimiter.forget(item);
+    }
+
+    /**
+     * Returns how often the item was rate limited since it was last forgotten.
+     */
+    public numRequeues(item: string): number {
+        return this.rateLimiter.numRequeues(item);
+    }
+
+    /**
+     * Waits for the next item to process.
+     * Resolves to undefined once the queue is shut down.
+     * Every returned item has to be marked with done() after it was processed.
+     */
+    public get(): Promise<string | undefined> {
+        const item = this.queue.shift();
+        if (has(item)) {
+            this.updateDepth();
+            this.startProcessing(item);
+            return Promise.resolve(item);
+        }
+        if (this.shuttingDown) {
+            return Promise.resolve(undefined);
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    /**
+     * Marks the item as processed.
+     */
+    public done(item: string): void {
+        this.processing.delete(item);
+        const startedAt = this.startedAt.get(item);
+        if (has(this.name) && has(startedAt)) {
+            workQueueWorkDuration.observe({name: this.name}, (Date.now() - startedAt) / 1000);
+        }
+        this.startedAt.delete(item);
+        if (this.dirty.has(item)) {
+            this.push(item);
+        }
+    }
+
+    /**
+     * Returns the number of items waiting to be processed.
+     */
+    public len(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Stops accepting new items and releases all consumers waiting for an item.
+     */
+    public shutDown(): void {
+        this.shuttingDown = true;
+        this.delayed.forEach(d => clearTimeout(d.timer));
+        this.delayed.clear();
+        this.waiting.splice(0).forEach(resolve => resolve(undefined));
+    }
+
+    public isShuttingDown(): boolean {
+        return this.shuttingDown;
+    }
+
+    private push(item: string): void {
+        const waiter = this.waiting.shift();
+        if (!has(waiter)) {
+            this.queue.push(item);
+            this.updateDepth();
+            return;
+        }
+        this.startProcessing(item);
+        waiter(item);
+    }
+
+    private startProcessing(item: string): void {
+        this.dirty.delete(item);
+        this.processing.add(item);
+        const queuedAt = this.queuedAt.get(item);
+        if (has(this.name) && has(queuedAt)) {
+            workQueueLatency.observe({name: this.name}, (Date.now() - queuedAt) / 1000);
+            this.startedAt.set(item, Date.now());
+        }
+        this.queuedAt.delete(item);
+    }
+
+    private updateDepth(): void {
+        if (has(this.name)) {
+            workQueueDepth.set({name: this.name}, this.queue.length);
+        }
+    }
+}